@@ -1,11 +1,66 @@
 export { EntityDb } from "./src/entity-db.ts";
+export type { Query } from "./src/query.ts";
+export {
+  ConcurrentModificationError,
+  FullScanError,
+  ReferentialIntegrityError,
+  TransactionConflictError,
+  UniqueConstraintViolationError,
+  ValidationError,
+} from "./src/errors.ts";
 export type {
+  Aggregates,
+  BelongsToRelation,
+  ChangeEvent,
+  ChangeOperation,
+  ChangesOptions,
+  ClearOptions,
+  ClearProgress,
+  CountOptions,
   DbConfig,
   DbConnectionCallback,
+  DeleteOptions,
   EntityDefinition,
   EntityDefinitionId,
+  EntityHooks,
   EntityInstance,
+  EntityMigration,
+  EntityValidator,
+  EntityValidatorFunction,
+  Explanation,
+  FindAllOptions,
+  FindOptions,
+  GlobalEntityHooks,
+  HasManyRelation,
   IndexedProperty,
+  IntegrityIssue,
+  IntegrityIssueKind,
   KvValue,
+  MigrateOptions,
+  MigrateProgress,
+  Page,
+  PropertyLookup,
   PropertyLookupPair,
+  PropertyRange,
+  PropertyRangePair,
+  QueryCondition,
+  QueryOperator,
+  QueryOptions,
+  QueryOrder,
+  Relation,
+  RelationDeleteAction,
+  SaveOptions,
+  SchemaChange,
+  SearchOptions,
+  StandardSchemaV1,
+  StandardSchemaV1Result,
+  StoredEntityDefinition,
+  Transaction,
+  UniqueLookup,
+  UniqueProperty,
+  UniquePropertyValue,
+  ValidationIssue,
+  ValueStorage,
+  VerifyOptions,
+  Versioned,
 } from "./src/types.ts";
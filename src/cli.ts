@@ -1,30 +1,312 @@
 #!/bin/sh
-// 2>/dev/null;DENO_VERSION_RANGE="^1.42.1";DENO_RUN_ARGS="-q --unstable-kv";set -e;V="$DENO_VERSION_RANGE";A="$DENO_RUN_ARGS";h(){ [ -x "$(command -v "$1" 2>&1)" ];};g(){ u="$([ "$(id -u)" != 0 ]&&echo sudo||:)";if h brew;then echo "brew install $1";elif h apt;then echo "($u apt update && $u DEBIAN_FRONTEND=noninteractive apt install -y $1)";elif h yum;then echo "$u yum install -y $1";elif h pacman;then echo "$u pacman -yS --noconfirm $1";elif h opkg-install;then echo "$u opkg-install $1";fi;};p(){ q="$(g "$1")";if [ -z "$q" ];then echo "Please install '$1' manually, then try again.">&2;exit 1;fi;eval "o=\"\$(set +o)\";set -x;$q;set +x;eval \"\$o\"">&2;};f(){ h "$1"||p "$1";};w(){ [ -n "$1" ] && "$1" -V >/dev/null 2>&1;};U="$(l=$(printf "%s" "$V"|wc -c);for i in $(seq 1 $l);do c=$(printf "%s" "$V"|cut -c $i);printf '%%%02X' "'$c";done)";D="$(w "$(command -v deno||:)"||:)";t(){ i="$(if h findmnt;then findmnt -Ononoexec,noro -ttmpfs -nboAVAIL,TARGET|sort -rn|while IFS=$'\n\t ' read -r a m;do [ "$a" -ge 150000000 ]&&[ -d "$m" ]&&printf %s "$m"&&break||:;done;fi)";printf %s "${i:-"${TMPDIR:-/tmp}"}";};s(){ deno eval "import{satisfies as e}from'https://deno.land/x/semver@v1.4.1/mod.ts';Deno.exit(e(Deno.version.deno,'$V')?0:1);">/dev/null 2>&1;};e(){ R="$(t)/deno-range-$V/bin";mkdir -p "$R";export PATH="$R:$PATH";s&&return;f curl;v="$(curl -sSfL "https://semver-version.deno.dev/api/github/denoland/deno/$U")";i="$(t)/deno-$v";ln -sf "$i/bin/deno" "$R/deno";s && return;f unzip;([ "${A#*-q}" != "$A" ]&&exec 2>/dev/null;curl -fsSL https://deno.land/install.sh|DENO_INSTALL="$i" sh -s $DENO_INSTALL_ARGS "$v"|grep -iv discord>&2);};e;exec deno run $A "$0" "$@"
+// 2>/dev/null;DENO_VERSION_RANGE="^1.42.1";DENO_RUN_ARGS="-q --unstable-kv --allow-read --allow-write";set -e;V="$DENO_VERSION_RANGE";A="$DENO_RUN_ARGS";h(){ [ -x "$(command -v "$1" 2>&1)" ];};g(){ u="$([ "$(id -u)" != 0 ]&&echo sudo||:)";if h brew;then echo "brew install $1";elif h apt;then echo "($u apt update && $u DEBIAN_FRONTEND=noninteractive apt install -y $1)";elif h yum;then echo "$u yum install -y $1";elif h pacman;then echo "$u pacman -yS --noconfirm $1";elif h opkg-install;then echo "$u opkg-install $1";fi;};p(){ q="$(g "$1")";if [ -z "$q" ];then echo "Please install '$1' manually, then try again.">&2;exit 1;fi;eval "o=\"\$(set +o)\";set -x;$q;set +x;eval \"\$o\"">&2;};f(){ h "$1"||p "$1";};w(){ [ -n "$1" ] && "$1" -V >/dev/null 2>&1;};U="$(l=$(printf "%s" "$V"|wc -c);for i in $(seq 1 $l);do c=$(printf "%s" "$V"|cut -c $i);printf '%%%02X' "'$c";done)";D="$(w "$(command -v deno||:)"||:)";t(){ i="$(if h findmnt;then findmnt -Ononoexec,noro -ttmpfs -nboAVAIL,TARGET|sort -rn|while IFS=$'\n\t ' read -r a m;do [ "$a" -ge 150000000 ]&&[ -d "$m" ]&&printf %s "$m"&&break||:;done;fi)";printf %s "${i:-"${TMPDIR:-/tmp}"}";};s(){ deno eval "import{satisfies as e}from'https://deno.land/x/semver@v1.4.1/mod.ts';Deno.exit(e(Deno.version.deno,'$V')?0:1);">/dev/null 2>&1;};e(){ R="$(t)/deno-range-$V/bin";mkdir -p "$R";export PATH="$R:$PATH";s&&return;f curl;v="$(curl -sSfL "https://semver-version.deno.dev/api/github/denoland/deno/$U")";i="$(t)/deno-$v";ln -sf "$i/bin/deno" "$R/deno";s && return;f unzip;([ "${A#*-q}" != "$A" ]&&exec 2>/dev/null;curl -fsSL https://deno.land/install.sh|DENO_INSTALL="$i" sh -s $DENO_INSTALL_ARGS "$v"|grep -iv discord>&2);};e;exec deno run $A "$0" "$@"
 
+/**
+ * Command line interface for exporting and importing the EntityInstances of an EntityDb, as NDJSON.
+ *
+ * ```sh
+ * src/cli.ts export --config ./config.ts [--db ./app.db] [--prefix '["app"]'] > backup.ndjson
+ * src/cli.ts import --config ./config.ts [--db ./app.db] [--prefix '["app"]'] < backup.ndjson
+ * ```
+ *
+ * The config module must default export the {@link DbConfig} of the EntityDb. Any `--db` and `--prefix` override its
+ * `dbFilePath` and `prefix`; the prefix is given as a JSON array.
+ *
+ * @module
+ */
 import { EntityDb } from "./entity-db.ts";
-import { TEST_PREFIX } from "../test/entity-db.test.ts";
-import { asArray } from "./fn.ts";
+import {
+  getRemainingExpireIn,
+  getUniquePropertyKeyPart,
+  isDefined,
+  Maybe,
+} from "./fn.ts";
+import {
+  DbConfig,
+  EntityDefinition,
+  EntityInstance,
+  ExtractEntityDefinitionId,
+  PropertyLookup,
+} from "./types.ts";
 
-async function main() {
-  const db = new EntityDb({
-    prefix: TEST_PREFIX,
-    entityDefinitions: {},
-  });
-  const entries = await db._doWithConnection(
-    [] as Record<string, unknown>[],
-    async (conn) => {
-      const prefix = [
-        ...TEST_PREFIX,
-        ...Deno.args,
-      ];
-      return (await asArray(
-        conn.list({ prefix }),
-      )) as Record<string, unknown>[];
+/** What to do, and with which db. */
+export interface CliArgs {
+  command: "export" | "import";
+  configModule: string;
+  dbFilePath?: string;
+  prefix?: Deno.KvKey;
+}
+
+/** One line of NDJSON: an EntityInstance, the id of its EntityDefinition, and when it expires, if it does. */
+export interface EntityRecord<T> {
+  entityDefinitionId: ExtractEntityDefinitionId<T>;
+  entityInstance: T;
+  expiresAt?: Date;
+}
+
+const USAGE = `Usage:
+  cli.ts export --config <module> [--db <path>] [--prefix <json array>] > entities.ndjson
+  cli.ts import --config <module> [--db <path>] [--prefix <json array>] < entities.ndjson`;
+
+/**
+ * Parse the command line arguments.
+ * @param args The command line arguments.
+ * @throws Error with the usage, if they are not valid.
+ */
+export function parseArgs(args: string[]): CliArgs {
+  const [command, ...rest] = args;
+  if (command !== "export" && command !== "import") {
+    throw new Error(USAGE);
+  }
+  const options: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i += 2) {
+    const [name, value] = [rest[i], rest[i + 1]];
+    if (!["--config", "--db", "--prefix"].includes(name) || !isDefined(value)) {
+      throw new Error(USAGE);
+    }
+    options[name] = value;
+  }
+  if (!isDefined(options["--config"])) {
+    throw new Error(USAGE);
+  }
+  return {
+    command,
+    configModule: options["--config"],
+    dbFilePath: options["--db"],
+    prefix: isDefined(options["--prefix"])
+      ? JSON.parse(options["--prefix"])
+      : undefined,
+  };
+}
+
+/**
+ * Serialize a record as one line of NDJSON. Values that JSON has no notation for (Date, bigint, Uint8Array, Map and
+ * Set) are written as objects with a single `$date`, `$bigint`, `$bytes`, `$map` or `$set` property. Any other
+ * property whose name starts with `$` gets another `$`, so that it is never mistaken for one of those.
+ * @param record The record to serialize.
+ * @returns the line, without a line break.
+ */
+export function toNdjsonLine<T>(record: EntityRecord<T>): string {
+  return JSON.stringify(
+    record,
+    function (this: Record<string, unknown>, key: string, value: unknown) {
+      // Date#toJSON has already been applied to value, so look at the original
+      const original: unknown = this[key];
+      if (original instanceof Date) {
+        return { $date: original.toISOString() };
+      }
+      if (typeof original === "bigint") {
+        return { $bigint: original.toString() };
+      }
+      if (original instanceof Uint8Array) {
+        return { $bytes: [...original] };
+      }
+      if (original instanceof Map) {
+        return { $map: [...original] };
+      }
+      if (original instanceof Set) {
+        return { $set: [...original] };
+      }
+      if (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      ) {
+        return Object.fromEntries(
+          Object.entries(value).map(([name, property]) => [
+            name.startsWith("$") ? "$" + name : name,
+            property,
+          ]),
+        );
+      }
+      return value;
     },
   );
-  console.log(JSON.stringify(entries, null, 2));
+}
+
+/**
+ * Parse one line of NDJSON, as written by {@link toNdjsonLine}.
+ * @param line The line to parse.
+ * @returns the record.
+ */
+export function fromNdjsonLine<T>(line: string): EntityRecord<T> {
+  return JSON.parse(line, (_key: string, value: unknown) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return value;
+    }
+    if (Object.keys(value).length !== 1) {
+      return unescapePropertyNames(value);
+    }
+    const tagged = value as Record<string, unknown>;
+    if (typeof tagged.$date === "string") {
+      return new Date(tagged.$date);
+    }
+    if (typeof tagged.$bigint === "string") {
+      return BigInt(tagged.$bigint);
+    }
+    if (Array.isArray(tagged.$bytes)) {
+      return new Uint8Array(tagged.$bytes);
+    }
+    if (Array.isArray(tagged.$map)) {
+      return new Map(tagged.$map);
+    }
+    if (Array.isArray(tagged.$set)) {
+      return new Set(tagged.$set);
+    }
+    return unescapePropertyNames(value);
+  });
+}
+
+/**
+ * Undo the escaping of {@link toNdjsonLine}, of the names of properties that start with `$`.
+ * @param value The object as parsed.
+ * @returns the object with the original property names.
+ */
+function unescapePropertyNames(value: object): object {
+  if (!Object.keys(value).some((name: string) => name.startsWith("$$"))) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([name, property]) => [
+      name.startsWith("$$") ? name.slice(1) : name,
+      property,
+    ]),
+  );
+}
+
+/**
+ * Export all EntityInstances of all EntityDefinitions in the config, including soft deleted ones, one line per
+ * EntityInstance.
+ * @param db The EntityDb to export from.
+ * @param config The DbConfig of the EntityDb.
+ * @returns the lines of NDJSON, without line breaks.
+ */
+export async function* exportEntities<Ts extends EntityInstance<Ts>>(
+  db: EntityDb<Ts>,
+  config: DbConfig<Ts>,
+): AsyncIterableIterator<string> {
+  for (
+    const entityDefinition of Object.values(
+      config.entityDefinitions,
+    ) as EntityDefinition<Ts>[]
+  ) {
+    const entityDefinitionId = entityDefinition
+      .id as ExtractEntityDefinitionId<Ts>;
+    // each EntityInstance is stored once at its first unique property
+    const entityInstances: AsyncIterableIterator<Ts> = db.iterate(
+      entityDefinitionId,
+      getUniquePropertyKeyPart(
+        entityDefinition.uniqueProperties[0],
+      ) as PropertyLookup<Ts>,
+      { includeDeleted: true },
+    );
+    for await (const entityInstance of entityInstances) {
+      const expiresAt: Maybe<Date> = await db.getExpiry(
+        entityDefinitionId,
+        entityInstance,
+      );
+      yield toNdjsonLine({
+        entityDefinitionId,
+        entityInstance,
+        ...(isDefined(expiresAt) ? { expiresAt } : {}),
+      });
+    }
+  }
+}
+
+/**
+ * Import EntityInstances from lines of NDJSON, saving each with {@link EntityDb#save}, so all its keys are derived
+ * anew, and it is validated. Like any save, it also runs any hooks, but it keeps the timestamps and the expiry that
+ * were exported. Empty lines are skipped.
+ * @param db The EntityDb to import into.
+ * @param config The DbConfig of the EntityDb.
+ * @param lines The lines of NDJSON.
+ * @returns how many EntityInstances were imported.
+ * @throws Error with the line number, if a line could not be imported. The lines before it are imported.
+ */
+export async function importEntities<Ts extends EntityInstance<Ts>>(
+  db: EntityDb<Ts>,
+  config: DbConfig<Ts>,
+  lines: AsyncIterable<string> | Iterable<string>,
+): Promise<number> {
+  let lineNumber = 0;
+  let imported = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === "") {
+      continue;
+    }
+    try {
+      const { entityDefinitionId, entityInstance, expiresAt } = fromNdjsonLine<
+        Ts
+      >(line);
+      if (!Object.hasOwn(config.entityDefinitions, entityDefinitionId)) {
+        throw new Error(`Unknown EntityDefinition ${entityDefinitionId}.`);
+      }
+      await db.save(entityDefinitionId, entityInstance, {
+        preserveTimestamps: true,
+        expireIn: getRemainingExpireIn(expiresAt?.getTime()),
+      });
+    } catch (error) {
+      throw new Error(
+        `Line ${lineNumber}: ${(error as Error).message}`,
+        { cause: error },
+      );
+    }
+    imported++;
+  }
+  return imported;
+}
+
+/**
+ * Split a stream of text into lines.
+ * @param readable The stream of text.
+ */
+async function* readLines(
+  readable: ReadableStream<string>,
+): AsyncIterableIterator<string> {
+  let buffered = "";
+  for await (const text of readable) {
+    const lines: string[] = (buffered + text).split("\n");
+    buffered = lines.pop()!;
+    yield* lines;
+  }
+  yield buffered;
+}
+
+async function main(): Promise<void> {
+  const args: CliArgs = parseArgs(Deno.args);
+  const configUrl: string = new URL(args.configModule, `file://${Deno.cwd()}/`)
+    .href;
+  const { default: moduleConfig } = await import(configUrl);
+  const config = {
+    ...moduleConfig,
+    dbFilePath: args.dbFilePath ?? moduleConfig.dbFilePath,
+    prefix: args.prefix ?? moduleConfig.prefix,
+  };
+  // one connection for all EntityInstances, rather than one per operation
+  await using db = await EntityDb.open(config);
+
+  if (args.command === "export") {
+    const encoder = new TextEncoder();
+    const writer = Deno.stdout.writable.getWriter();
+    for await (const line of exportEntities(db, config)) {
+      await writer.write(encoder.encode(line + "\n"));
+    }
+    writer.releaseLock();
+  } else {
+    const imported: number = await importEntities(
+      db,
+      config,
+      readLines(Deno.stdin.readable.pipeThrough(new TextDecoderStream())),
+    );
+    console.error(`Imported ${imported} entities.`);
+  }
 }
 
 if (import.meta.main) {
-  await main();
+  try {
+    await main();
+  } catch (error) {
+    console.error((error as Error).message);
+    Deno.exit(1);
+  }
 }
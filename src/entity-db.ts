@@ -1,13 +1,139 @@
-import { asArray, isDefined, isKvKeyPart, Maybe, prop, VOID } from "./fn.ts";
 import {
+  ConcurrentModificationError,
+  FullScanError,
+  ReferentialIntegrityError,
+  TransactionConflictError,
+  UniqueConstraintViolationError,
+  ValidationError,
+} from "./errors.ts";
+import {
+  asArray,
+  chunk,
+  getKvKeyId,
+  getManyEntries,
+  getRemainingExpireIn,
+  getUniquePropertyKeyPart,
+  getUniquePropertyNames,
+  isDefined,
+  isKvKey,
+  isKvKeyPart,
+  isPropertyRangeLookup,
+  isSameKvKey,
+  isSameKvValue,
+  MAX_GET_MANY_KEYS,
+  Maybe,
+  nextKvKeyPart,
+  prop,
+  VOID,
+} from "./fn.ts";
+import {
+  Aggregates,
+  ChangeEvent,
+  ChangeOperation,
+  ChangesOptions,
+  ClearOptions,
+  CountOptions,
   DbConfig,
   DbConnectionCallback,
+  DeleteOptions,
   EntityDefinition,
+  EntityHooks,
   EntityInstance,
+  EntityMigration,
+  Explanation,
   ExtractEntityDefinitionId,
+  FindAllOptions,
+  FindOptions,
   IndexedProperty,
+  IntegrityIssue,
+  IntegrityIssueKind,
+  MigrateOptions,
+  Page,
+  PropertyLookup,
   PropertyLookupPair,
+  PropertyRangePair,
+  QueryOptions,
+  Relation,
+  SaveOptions,
+  SchemaChange,
+  SearchOptions,
+  StoredEntityDefinition,
+  Transaction,
+  UniqueLookup,
+  UniqueProperty,
+  UniquePropertyValue,
+  ValidationIssue,
+  VerifyOptions,
+  Versioned,
 } from "./types.ts";
+import { callBeforeSaveHooks, callHooks } from "./hooks.ts";
+import {
+  findChain,
+  matchesConditions,
+  planQuery,
+  Query,
+  QueryPlan,
+  QuerySpec,
+  sortByOrder,
+} from "./query.ts";
+import { getSchemaChange, toStoredEntityDefinition } from "./schema.ts";
+import { countTokens, getTokenPrefixEnd, tokenize } from "./search.ts";
+import {
+  validateEntityDefinition,
+  validateEntityInstance,
+} from "./validate.ts";
+
+/** The maximum number of mutations that Deno.Kv allows in one atomic operation. */
+const MAX_ATOMIC_MUTATIONS = 1000;
+
+/** How many EntityInstances or keys to handle per atomic operation, when migrating or verifying. */
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * The key part under the prefix, where this EntityDb keeps its own bookkeeping. It is a Uint8Array, so it never
+ * collides with an EntityDefinitionId, and sorts before all of them.
+ */
+const SYSTEM_KEY_PART: Uint8Array = new TextEncoder().encode("kv_entity");
+
+/** The maximum number of keys that Deno.Kv#watch accepts in one call. */
+const MAX_WATCH_KEYS = 10;
+
+/** What Deno.AtomicOperation#sum subtracts one with, as the sum wraps around at 2^64. */
+const U64_MINUS_ONE = 0xffffffffffffffffn;
+
+/** How many times to try committing an atomic operation, before giving up because of concurrent modifications. */
+const MAX_COMMIT_ATTEMPTS = 10;
+
+/** An EntityInstance, as stored at its primary key, and all the keys it should be stored at. */
+interface Owner<T> {
+  entityInstance: T;
+  keys: Deno.KvKey[];
+}
+
+/**
+ * A change to append to the changelog, before it is given its {@link ChangeEvent#id}. The EntityInstances are not
+ * typed, so that an EntityDb of some EntityInstances can be used as one of more.
+ */
+type PendingChange =
+  & Omit<ChangeEvent<never>, "id" | "before" | "after">
+  & { before?: unknown; after?: unknown };
+
+/** Whether a key is one of the keys that an owner should be stored at. */
+function isOwnKey<T>(owner: Maybe<Owner<T>>, key: Deno.KvKey): boolean {
+  return isDefined(owner) &&
+    owner.keys.some((ownKey) => isSameKvKey(ownKey, key));
+}
+
+/** Count entries as read for an explanation, if any: the entries themselves, and those they refer to. */
+function countEntriesRead(
+  explanation: Maybe<Explanation>,
+  entries: Deno.KvEntryMaybe<unknown>[],
+): void {
+  if (isDefined(explanation)) {
+    explanation.entriesRead += entries.length +
+      entries.filter(({ value }) => isKvKey(value)).length;
+  }
+}
 
 /**
  * Defines an `EntityDb`, and its structure.
@@ -62,269 +188,3328 @@ import {
  * @template Ts The `EntityInstance`s that can be stored in this `EntityDb`.
  * @param config The configuration for this `EntityDb`.
  */
-export class EntityDb<Ts extends EntityInstance<Ts>> {
+export class EntityDb<Ts extends EntityInstance<Ts>>
+  implements AsyncDisposable {
+  /** The connection that all operations share, if any. Otherwise, each operation opens its own. */
+  private connection?: Deno.Kv;
+
+  /** Whether {@link EntityDb#connection} was opened by this EntityDb, and should be closed by it. */
+  private ownsConnection = false;
+
+  /** Whether {@link EntityDb#close} has been called. */
+  private closed = false;
+
+  /** Changes to append to the changelog, per atomic operation, when it is committed. */
+  private pendingChanges: WeakMap<Deno.AtomicOperation, PendingChange[]> =
+    new WeakMap();
+
+  /** The time of the last {@link ChangeEvent#id} created, and how many were created at that time. */
+  private lastChangeTime = 0;
+  private changesAtLastTime = 0;
+
+  /** After hooks to call, per atomic operation, once it is committed. See {@link EntityHooks}. */
+  private pendingAfterHooks: WeakMap<
+    Deno.AtomicOperation,
+    (() => Promise<void>)[]
+  > = new WeakMap();
+
   /**
    * Configure a db.
+   *
+   * If {@link DbConfig#kv} is given, all operations share that connection. Otherwise, each operation opens and closes
+   * its own connection. Use {@link EntityDb.open} for a db that keeps one connection open.
    * @param config
+   * @throws Error if an EntityDefinition combines options that can not work together.
    */
   constructor(
     private config: DbConfig<Ts>,
-  ) {}
+  ) {
+    for (const entityDefinition of Object.values(config.entityDefinitions)) {
+      validateEntityDefinition(entityDefinition as EntityDefinition<Ts>);
+    }
+    this.connection = config.kv;
+  }
+
+  /**
+   * Open a db, with one connection that is kept open and shared by all operations, until {@link EntityDb#close} is
+   * called.
+   *
+   * For example:
+   *
+   * ```ts
+   * await using db = await EntityDb.open<Person | Invoice>({ entityDefinitions });
+   * ```
+   * @param config The configuration for the db. If it has a {@link DbConfig#kv}, that is used instead of opening a new
+   * connection.
+   * @throws any error of {@link DbConfig#migrateOnOpen}, after closing the connection it opened.
+   */
+  static async open<Ts extends EntityInstance<Ts>>(
+    config: DbConfig<Ts>,
+  ): Promise<EntityDb<Ts>> {
+    const db = new EntityDb<Ts>(config);
+    if (!isDefined(db.connection)) {
+      db.connection = await Deno.openKv(config.dbFilePath);
+      db.ownsConnection = true;
+    }
+    if (config.migrateOnOpen) {
+      try {
+        await db.migrate();
+      } catch (error) {
+        await db.close();
+        throw error;
+      }
+    }
+    return db;
+  }
 
   /**
-   * Save an EntityInstance to the db.
+   * Close the db. Closes the shared connection if it was opened by {@link EntityDb.open}, but not if it was given as
+   * {@link DbConfig#kv}. The db can not be used after this.
+   */
+  close(): Promise<void> {
+    if (this.ownsConnection && !this.closed) {
+      this.connection?.close();
+    }
+    this.closed = true;
+    return Promise.resolve();
+  }
+
+  /** Same as {@link EntityDb#close}, for use with `await using`. */
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+
+  /**
+   * Save an EntityInstance to the db, inserting it if it does not exist, or updating it if it does.
    * @param entityDefinitionId The id of the EntityDefinition to save the value to.
    * @param entityInstance The EntityInstance to save.
+   * @param options Options for saving.
+   * @throws ValidationError if the EntityInstance is not valid.
+   * @throws UniqueConstraintViolationError if any of its unique property values belong to another EntityInstance.
+   * @throws ConcurrentModificationError if the stored EntityInstance does not have the expected versionstamp.
    */
   async save<T extends Ts>(
     entityDefinitionId: ExtractEntityDefinitionId<T>,
     entityInstance: T,
+    options: SaveOptions = {},
   ): Promise<void> {
-    const keys: Deno.KvKey[] = this.getAllKeys(
-      entityDefinitionId,
-      entityInstance,
-    );
-    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
-      const atomic: Deno.AtomicOperation = connection.atomic();
-      for (const key of keys) {
-        atomic.set(key, entityInstance);
-      }
-      const { ok } = await atomic.commit();
-      if (!ok) {
-        throw new Error("commit failed");
-      }
-    });
+    await this._save(entityDefinitionId, entityInstance, options, false);
   }
 
   /**
-   * Deletes all EntityInstance's for a given EntityDefinition.id.
-   *
-   * For example: deleteAll("person") will delete all Person's.
+   * Save an EntityInstance to the db, inserting it if it does not exist, or updating it if it does.
    *
-   * @param entityDefinitionId The id of the EntityDefinition to delete all instances of.
+   * Same as {@link EntityDb#save}.
+   * @param entityDefinitionId The id of the EntityDefinition to save the value to.
+   * @param entityInstance The EntityInstance to save.
+   * @param options Options for saving.
+   * @throws ValidationError if the EntityInstance is not valid.
+   * @throws UniqueConstraintViolationError if any of its unique property values belong to another EntityInstance.
+   * @throws ConcurrentModificationError if the stored EntityInstance does not have the expected versionstamp.
    */
-  async clearEntity<T extends Ts>(
+  async upsert<T extends Ts>(
     entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+    options: SaveOptions = {},
   ): Promise<void> {
-    if (typeof entityDefinitionId !== "string") {
-      throw new Error(
-        "EntityDefinition id must be a string. If you want to clear all entities, use clearAllEntities() instead.",
-      );
-    }
-    await this._clearEntity(entityDefinitionId);
+    await this._save(entityDefinitionId, entityInstance, options, false);
   }
 
   /**
-   * Deletes all EntityInstance's known by this EntityDb
+   * Insert a new EntityInstance into the db.
+   * @param entityDefinitionId The id of the EntityDefinition to insert the value to.
+   * @param entityInstance The EntityInstance to insert.
+   * @param options Options for saving.
+   * @throws ValidationError if the EntityInstance is not valid.
+   * @throws UniqueConstraintViolationError if any of its unique property values already exist in the db.
    */
-  async clearAllEntities(): Promise<void> {
-    await this._clearEntity();
+  async insert<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+    options: SaveOptions = {},
+  ): Promise<void> {
+    await this._save(entityDefinitionId, entityInstance, options, true);
   }
 
-  private async _clearEntity<T extends Ts | never>(
-    entityId?: ExtractEntityDefinitionId<T>,
-  ): Promise<void> {
-    const allKeys = this.getAllKeys(entityId);
-    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
-      const atomic: Deno.AtomicOperation = connection.atomic();
-      for (const prefix of allKeys) {
-        const kvEntries: Deno.KvEntry<unknown>[] = await asArray(
-          connection.list({ prefix }),
+  /**
+   * Update an EntityInstance in the db, by reading it, passing it through a mutator function, and saving the result.
+   *
+   * If the EntityInstance is modified by someone else in the meantime, the whole read-modify-write cycle is retried.
+   *
+   * @param entityDefinitionId The id of the EntityDefinition to update the EntityInstance of.
+   * @param uniquePropertyName The unique property, or tuple of unique properties, to find the EntityInstance by.
+   * @param uniquePropertyValue The unique property value, or the values of the tuple, to find the EntityInstance by.
+   * @param mutator A function that returns the updated EntityInstance. It may be called more than once, and should
+   * not change the first of the {@link EntityDefinition#uniqueProperties}.
+   * @returns the updated EntityInstance, or undefined if there was none to update.
+   * @throws ConcurrentModificationError if the EntityInstance kept being modified concurrently.
+   */
+  async update<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+    mutator: (entityInstance: T) => T | Promise<T>,
+  ): Promise<Maybe<T>> {
+    for (let attempt = 1;; attempt++) {
+      const existing: Maybe<Versioned<T>> = await this.findWithVersion(
+        entityDefinitionId,
+        uniquePropertyName,
+        uniquePropertyValue,
+      );
+      if (!isDefined(existing)) {
+        return undefined;
+      }
+      const updatedEntityInstance: T = await mutator(existing.value);
+      try {
+        return await this._save(
+          entityDefinitionId,
+          updatedEntityInstance,
+          { expectedVersionstamp: existing.versionstamp },
+          false,
         );
-        for (const { key } of kvEntries) {
-          atomic.delete(key);
+      } catch (error) {
+        if (
+          !(error instanceof ConcurrentModificationError) ||
+          attempt >= MAX_COMMIT_ATTEMPTS
+        ) {
+          throw error;
         }
       }
-
-      const { ok } = await atomic.commit();
-      if (!ok) {
-        throw new Error("commit failed");
-      }
-    });
+    }
   }
 
-  /**
-   * Find an EntityInstance in the db.
-   * @param entityDefinitionId The id of the EntityDefinition to find the EntityInstance for.
-   * @param uniquePropertyName The unique property to find the EntityInstance for.
-   * @param uniquePropertyValue The unique property value to find the EntityInstance for.
-   * @returns the EntityInstance, or undefined if not found at the given key.
-   */
-  async find<
-    T extends Ts,
-  >(
+  private async _save<T extends Ts>(
     entityDefinitionId: ExtractEntityDefinitionId<T>,
-    uniquePropertyName: keyof T,
-    uniquePropertyValue: T[keyof T],
-  ): Promise<Maybe<T>> {
-    const key: Deno.KvKey = this.getUniqueKey(
-      entityDefinitionId,
-      uniquePropertyName,
-      uniquePropertyValue,
-    );
+    entityInstance: T,
+    options: SaveOptions,
+    mustNotExist: boolean,
+  ): Promise<T> {
     return await this._doWithConnection(
-      {} as Maybe<T>,
+      entityInstance,
       async (connection: Deno.Kv) => {
-        const entry: Deno.KvEntryMaybe<T> = await connection.get<T>(key);
-        return entry.value ?? undefined;
+        return await this.commitWithRetries(
+          connection,
+          async (atomic: Deno.AtomicOperation) => {
+            return await this.planSave(
+              connection,
+              atomic,
+              entityDefinitionId,
+              entityInstance,
+              options,
+              mustNotExist,
+            );
+          },
+        );
       },
     );
   }
 
   /**
-   * Delete an EntityInstance from the db.
-   * @param entityDefinitionId The id of the EntityDefinition to delete the EntityInstance from.
-   * @param uniquePropertyName The unique property to delete the EntityInstance for.
-   * @param uniquePropertyValue The unique property value to delete the EntityInstance for.
+   * Repeatedly plan and commit an atomic operation, until it succeeds. The plan is expected to add checks for anything
+   * it reads, so that it is re-planned from fresh reads when those change before the commit.
+   * @param connection The Deno.Kv to commit to.
+   * @param plan A function that adds checks and mutations to a fresh atomic operation.
+   * @returns whatever the successful plan returned.
+   * @throws ConcurrentModificationError if the commit kept failing.
+   * @private
    */
-  async delete<
-    T extends Ts,
-  >(
-    entityDefinitionId: ExtractEntityDefinitionId<T>,
-    uniquePropertyName: keyof T,
-    uniquePropertyValue: T[keyof T],
-  ): Promise<void> {
-    const entityInstance: Maybe<T> = await this.find(
-      entityDefinitionId,
-      uniquePropertyName,
-      uniquePropertyValue,
-    );
-
-    if (isDefined(entityInstance)) {
-      await this.deleteEntityInstance(entityDefinitionId, entityInstance);
+  private async commitWithRetries<R>(
+    connection: Deno.Kv,
+    plan: (atomic: Deno.AtomicOperation) => Promise<R>,
+  ): Promise<R> {
+    for (let attempt = 1; attempt <= MAX_COMMIT_ATTEMPTS; attempt++) {
+      const atomic: Deno.AtomicOperation = connection.atomic();
+      const result: R = await plan(atomic);
+      this.planChangelog(atomic);
+      const { ok } = await atomic.commit();
+      if (ok) {
+        for (const afterHook of this.pendingAfterHooks.get(atomic) ?? []) {
+          await afterHook();
+        }
+        return result;
+      }
     }
+    throw new ConcurrentModificationError(
+      `Commit failed ${MAX_COMMIT_ATTEMPTS} times, because of concurrent modifications.`,
+    );
   }
 
-  async deleteEntityInstance<T extends Ts>(
+  /**
+   * Add the checks and mutations needed to save an EntityInstance, to an atomic operation.
+   * @param connection The Deno.Kv to read the currently stored values from.
+   * @param atomic The atomic operation to add checks and mutations to.
+   * @param entityDefinitionId The id of the EntityDefinition to save the value to.
+   * @param entityInstance The EntityInstance to save.
+   * @param options Options for saving.
+   * @param mustNotExist Whether to fail if the EntityInstance already exists.
+   * @returns the EntityInstance as it will be saved, after any beforeSave hooks.
+   * @private
+   */
+  private async planSave<T extends Ts>(
+    connection: Deno.Kv,
+    atomic: Deno.AtomicOperation,
     entityDefinitionId: ExtractEntityDefinitionId<T>,
-    entityInstance: T,
-  ): Promise<void> {
-    // find all keys the same way as when saving
+    givenEntityInstance: T,
+    options: SaveOptions,
+    mustNotExist: boolean,
+  ): Promise<T> {
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
+    if (entityDefinition.counters && isDefined(options.expireIn)) {
+      throw new Error(
+        `${entityDefinitionId} has counters, so it can not be saved with expireIn.`,
+      );
+    }
+    const hooks: Maybe<EntityHooks<T>>[] = this.getHooks(entityDefinitionId);
+    let entityInstance: T = await callBeforeSaveHooks(
+      hooks,
+      entityDefinitionId,
+      givenEntityInstance,
+    );
+    const now: Date = new Date();
+    if (entityDefinition.timestamps) {
+      const given = entityInstance as { createdAt?: Date; updatedAt?: Date };
+      entityInstance = options.preserveTimestamps
+        ? {
+          ...entityInstance,
+          createdAt: given.createdAt ?? now,
+          updatedAt: given.updatedAt ?? now,
+        }
+        : { ...entityInstance, createdAt: now, updatedAt: now };
+    }
+    const issues: ValidationIssue[] = await validateEntityInstance(
+      entityDefinition,
+      entityInstance,
+    );
+    if (issues.length > 0) {
+      throw new ValidationError(entityDefinitionId, issues);
+    }
     const keys: Deno.KvKey[] = this.getAllKeys(
       entityDefinitionId,
       entityInstance,
     );
-    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
-      const atomic: Deno.AtomicOperation = connection.atomic();
-      for (const key of keys) {
-        atomic.delete(key);
+    const uniqueKeys: Deno.KvKey[] = this.getUniqueKeys(
+      entityDefinitionId,
+      entityInstance,
+    );
+    const primaryKey: Deno.KvKey = uniqueKeys[0];
+
+    // uniqueKeys[0] is the primary key, so uniqueEntries[0] is any previously stored version of this EntityInstance
+    const uniqueEntries: Deno.KvEntryMaybe<T | Deno.KvKey>[] =
+      await getManyEntries<T | Deno.KvKey>(
+        connection,
+        uniqueKeys,
+      );
+    if (
+      isDefined(options.expectedVersionstamp) &&
+      uniqueEntries[0].versionstamp !== options.expectedVersionstamp
+    ) {
+      throw new ConcurrentModificationError(
+        `Expected ${entityDefinitionId} at ${
+          String(primaryKey)
+        } to have versionstamp ${options.expectedVersionstamp}, but it has ${
+          uniqueEntries[0].versionstamp
+        }.`,
+      );
+    }
+    for (const [i, uniqueEntry] of uniqueEntries.entries()) {
+      if (uniqueEntry.value === null) {
+        continue;
       }
-      const { ok } = await atomic.commit();
-      if (!ok) {
-        throw new Error("commit failed");
+      const ownerPrimaryKey: Deno.KvKey = isKvKey(uniqueEntry.value)
+        ? uniqueEntry.value
+        : this.getUniqueKeys(entityDefinitionId, uniqueEntry.value)[0];
+      if (mustNotExist || !isSameKvKey(ownerPrimaryKey, primaryKey)) {
+        const uniqueProperty: UniqueProperty<T> =
+          entityDefinition.uniqueProperties[i];
+        throw new UniqueConstraintViolationError(
+          entityDefinitionId,
+          uniqueProperty,
+          Array.isArray(uniqueProperty)
+            ? uniqueProperty.map((property: keyof T) =>
+              entityInstance[property]
+            )
+            : entityInstance[uniqueProperty],
+        );
       }
+    }
+
+    // any previously stored version of this EntityInstance may have been stored at other keys
+    const existingEntityInstance: Maybe<T> =
+      (uniqueEntries[0].value ?? undefined) as Maybe<T>;
+    if (
+      entityDefinition.timestamps && !options.preserveTimestamps &&
+      isDefined(existingEntityInstance)
+    ) {
+      // a Date is not a Deno.KvKeyPart, so this does not change any keys
+      entityInstance = {
+        ...entityInstance,
+        createdAt: (existingEntityInstance as { createdAt?: Date }).createdAt ??
+          now,
+      };
+    }
+    const obsoleteKeys: Deno.KvKey[] = isDefined(existingEntityInstance)
+      ? this.getAllKeys(entityDefinitionId, existingEntityInstance)
+        .filter((existingKey: Deno.KvKey) =>
+          !keys.some((key: Deno.KvKey) => isSameKvKey(key, existingKey))
+        )
+      : [];
+
+    atomic.check(...uniqueEntries);
+    for (const obsoleteKey of obsoleteKeys) {
+      atomic.delete(obsoleteKey);
+    }
+    const expireIn: Maybe<number> = options.expireIn ??
+      entityDefinition.expireIn;
+    for (const key of keys) {
+      atomic.set(key, this.getValueToStore(key, primaryKey, entityInstance), {
+        expireIn,
+      });
+    }
+    if (isDefined(expireIn)) {
+      atomic.set(
+        this.getEntitySystemKey("expiresAt", primaryKey),
+        now.getTime() + expireIn,
+        { expireIn },
+      );
+    } else if (isDefined(existingEntityInstance)) {
+      atomic.delete(this.getEntitySystemKey("expiresAt", primaryKey));
+    }
+    if (isDefined(entityDefinition.version)) {
+      atomic.set(
+        this.getEntitySystemKey("versions", primaryKey),
+        entityDefinition.version,
+        { expireIn },
+      );
+    } else if (isDefined(existingEntityInstance)) {
+      atomic.delete(this.getEntitySystemKey("versions", primaryKey));
+    }
+    this.planCounters(
+      atomic,
+      entityDefinitionId,
+      existingEntityInstance,
+      entityInstance,
+    );
+    this.planSearchIndex(
+      atomic,
+      entityDefinitionId,
+      existingEntityInstance,
+      entityInstance,
+      expireIn,
+    );
+    this.recordChange(atomic, entityDefinitionId, primaryKey, "save", {
+      before: existingEntityInstance,
+      after: entityInstance,
     });
+    this.addAfterHook(
+      atomic,
+      () => callHooks(hooks, "afterSave", entityDefinitionId, entityInstance),
+    );
+    return entityInstance;
   }
 
   /**
-   * Find all EntityInstances in the db, that match the given non-unique property chain.
-   * @param entityDefinitionId The id of the entity to find, if any. If undefined, all entities will be searched.
-   * @param propertyLookupKey The non-unique property chain to find values for, if any. If undefined, all values for the given entity will be searched. Or, the name of a non-unique property, if only one property is to be searched.
+   * Add the mutations to store an EntityInstance at all its keys, and in the index of its searchable properties, to
+   * an atomic operation. The keys expire at the same time as when the EntityInstance was stored before, see
+   * {@link EntityDb#getExpiresAt}.
+   * @param atomic The atomic operation to add the mutations to.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance.
+   * @param entityInstance The EntityInstance to store.
+   * @param expiresAt When the EntityInstance expires, in milliseconds since the epoch, or undefined if it does not.
+   * @private
    */
-  async findAll<T extends Ts>(
-    entityDefinitionId?: ExtractEntityDefinitionId<T>,
-    propertyLookupKey?: PropertyLookupPair<T>[] | IndexedProperty<T>,
-  ): Promise<T[]> {
-    const key: Deno.KvKey = this.getNonUniqueKey(
+  private planSet<T extends Ts>(
+    atomic: Deno.AtomicOperation,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+    expiresAt: Maybe<number>,
+  ): void {
+    const keys: Deno.KvKey[] = this.getAllKeys(
       entityDefinitionId,
-      propertyLookupKey,
+      entityInstance,
     );
-    return await this._doWithConnection(
-      [] as T[],
-      async (connection: Deno.Kv) => {
-        const iterator: Deno.KvListIterator<T> = connection.list<T>({
-          prefix: key,
-        });
-        const entries: Deno.KvEntry<T>[] = await asArray(
-          iterator,
-        );
-        return entries.map(prop("value")) as T[];
-      },
+    const expireIn: Maybe<number> = getRemainingExpireIn(expiresAt);
+    for (const key of keys) {
+      atomic.set(key, this.getValueToStore(key, keys[0], entityInstance), {
+        expireIn,
+      });
+    }
+    if (isDefined(expiresAt)) {
+      atomic.set(this.getEntitySystemKey("expiresAt", keys[0]), expiresAt, {
+        expireIn,
+      });
+    }
+    this.planSearchIndex(
+      atomic,
+      entityDefinitionId,
+      undefined,
+      entityInstance,
+      expireIn,
     );
   }
 
-  async _doWithConnection<
-    T extends void | undefined | Ts | Ts[],
-  >(
-    _expectedReturnType: T,
-    fn: DbConnectionCallback<T>,
-  ): Promise<T> {
-    const connection: Deno.Kv = await Deno.openKv(this.config.dbFilePath);
-    try {
-      return await fn(connection);
-    } finally {
-      connection.close();
+  /**
+   * Add the mutations to update the {@link EntityDefinition#counters} for a change of an EntityInstance, to an atomic
+   * operation. Does nothing, unless the EntityDefinition has counters. Soft deleted EntityInstances are not counted.
+   * @param atomic The atomic operation to add the mutations to.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance.
+   * @param before The EntityInstance before the change, if it existed.
+   * @param after The EntityInstance after the change, if it still exists.
+   * @private
+   */
+  private planCounters<T extends Ts>(
+    atomic: Deno.AtomicOperation,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    before: Maybe<T>,
+    after: Maybe<T>,
+  ): void {
+    if (!this.getEntityDefinition(entityDefinitionId).counters) {
+      return;
+    }
+    const getCountedKeys = (entityInstance: Maybe<T>): Deno.KvKey[] =>
+      isDefined(entityInstance) &&
+        !this.isSoftDeleted(
+          this.getUniqueKeys(entityDefinitionId, entityInstance)[0],
+          entityInstance,
+        )
+        ? this.getCounterKeys(entityDefinitionId, entityInstance)
+        : [];
+    const beforeKeys: Deno.KvKey[] = getCountedKeys(before);
+    const afterKeys: Deno.KvKey[] = getCountedKeys(after);
+    const isIn = (keys: Deno.KvKey[], key: Deno.KvKey): boolean =>
+      keys.some((other: Deno.KvKey) => isSameKvKey(other, key));
+    for (const key of afterKeys.filter((key) => !isIn(beforeKeys, key))) {
+      atomic.sum(key, 1n);
+    }
+    for (const key of beforeKeys.filter((key) => !isIn(afterKeys, key))) {
+      atomic.sum(key, U64_MINUS_ONE);
     }
   }
 
   /**
-   * Calculate all the keys that an EntityInstance is stored at.
-   * @param entityDefinitionId The id of the EntityDefinition to calculate the keys for, if any. If not provided, the keys will be calculated for all entities.
-   * @param entityInstance The EntityInstance to calculate the keys for, if any. If not provided, the keys will be calculated for all under entityDefinitionId.
+   * Calculate which keys to list, to find all {@link EntityDefinition#counters}, the whole index of the
+   * {@link EntityDefinition#searchableProperties}, or all remembered expiries or versions of an EntityDefinition.
+   * @param name Whether to find the counters, the search index, the expiries or the versions.
+   * @param entityDefinitionId The id of the EntityDefinition, if any. If not provided, those of all are targeted.
    * @private
    */
-  private getAllKeys<
-    T extends Ts,
-  >(
+  private getSystemKeysSelector<T extends Ts>(
+    name: "counts" | "search" | "expiresAt" | "versions",
     entityDefinitionId?: ExtractEntityDefinitionId<T>,
-    entityInstance?: T,
-  ): Deno.KvKey[] {
-    if (entityDefinitionId === undefined) {
-      return [this.getNonUniqueKey()];
-    }
-    if (entityInstance === undefined) {
-      return [this.getNonUniqueKey(entityDefinitionId)];
+  ): Deno.KvListSelector {
+    const prefix: Deno.KvKey = this.getSystemKey(name);
+    if (!isDefined(entityDefinitionId)) {
+      return { prefix };
     }
-    return [
-      ...this.getUniqueKeys(entityDefinitionId, entityInstance),
-      ...this.getNonUniqueKeys(entityDefinitionId, entityInstance),
-    ];
+    // a prefix selector would leave out the counter of all EntityInstances, which is at the prefix itself
+    return {
+      start: [...prefix, entityDefinitionId],
+      end: [...prefix, nextKvKeyPart(entityDefinitionId)!],
+    };
   }
 
   /**
-   * Calculate all the unique keys that an EntityInstance is stored at.
-   * @param entityDefinitionId The id of the EntityDefinition to calculate the keys for.
-   * @param entityInstance The EntityInstance to calculate the keys for.
+   * Calculate a key that remembers something about an EntityInstance, that is not part of the EntityInstance itself:
+   * when it expires, so that rewriting it, for example to soft delete it, keeps the rest of its
+   * {@link SaveOptions#expireIn}, or the {@link EntityDefinition#version} it was saved with, to migrate it from.
+   * @param name What to remember.
+   * @param primaryKey The primary key of the EntityInstance.
    * @private
    */
-  private getUniqueKeys<
-    T extends Ts,
-  >(
-    entityDefinitionId: ExtractEntityDefinitionId<T>,
-    entityInstance: T,
-  ): Deno.KvKey[] {
-    const entityDefinition: EntityDefinition<T> = this.config
-      .entityDefinitions[entityDefinitionId] as unknown as EntityDefinition<T>;
-    return entityDefinition.uniqueProperties.map((
-      uniqueProperty: keyof T,
-    ) =>
-      this.getUniqueKey(
-        entityDefinitionId,
-        uniqueProperty,
-        entityInstance[uniqueProperty],
-      )
+  private getEntitySystemKey(
+    name: "expiresAt" | "versions",
+    primaryKey: Deno.KvKey,
+  ): Deno.KvKey {
+    return this.getSystemKey(
+      name,
+      ...primaryKey.slice((this.config.prefix ?? []).length),
     );
   }
 
   /**
-   * Calculate the unique key that an EntityInstance is stored at.
-   * @param entityDefinitionId The id of the entity to calculate the key for.
-   * @param uniquePropertyName The unique property to calculate the key for.
-   * @param uniquePropertyValue The unique property value to calculate the key for.
+   * Find when EntityInstances expire, to store them again with the rest of their expiry. One that was stored without a
+   * remembered expiry gets the default {@link EntityDefinition#expireIn} again, if any.
+   * @param connection The Deno.Kv to read from.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstances.
+   * @param primaryKeys The primary keys of the EntityInstances.
+   * @returns for each, when it expires in milliseconds since the epoch, or undefined if it does not.
    * @private
    */
-  private getUniqueKey<
-    T extends Ts,
-  >(
+  private async getExpiresAt<T extends Ts>(
+    connection: Deno.Kv,
     entityDefinitionId: ExtractEntityDefinitionId<T>,
-    uniquePropertyName: keyof T,
-    uniquePropertyValue: T[keyof T],
-  ): Deno.KvKey {
-    return [
+    primaryKeys: Deno.KvKey[],
+  ): Promise<Maybe<number>[]> {
+    const entries: Deno.KvEntryMaybe<number>[] = await getManyEntries<number>(
+      connection,
+      primaryKeys.map((primaryKey: Deno.KvKey) =>
+        this.getEntitySystemKey("expiresAt", primaryKey)
+      ),
+    );
+    const defaultExpireIn: Maybe<number> =
+      this.getEntityDefinition(entityDefinitionId).expireIn;
+    return entries.map(({ value }) =>
+      value ??
+        (isDefined(defaultExpireIn) ? Date.now() + defaultExpireIn : undefined)
+    );
+  }
+
+  /**
+   * Calculate the keys of the {@link EntityDefinition#counters} that count an EntityInstance: the one of all
+   * EntityInstances of its EntityDefinition, and one for each leading part of each indexed property chain that it is
+   * indexed by.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance.
+   * @param entityInstance The EntityInstance to count.
+   * @private
+   */
+  private getCounterKeys<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+  ): Deno.KvKey[] {
+    const keys: Deno.KvKey[] = [
+      this.getSystemKey("counts", entityDefinitionId),
+    ];
+    for (
+      const chain of this.getEntityDefinition(entityDefinitionId)
+        .indexedPropertyChains
+    ) {
+      if (
+        chain.some((property: keyof T) => entityInstance[property] === null)
+      ) {
+        // not indexed by this chain, just like getNonUniqueKeys
+        continue;
+      }
+      for (let length = 1; length <= chain.length; length++) {
+        const key: Deno.KvKey = this.getSystemKey(
+          "counts",
+          entityDefinitionId,
+          ...chain.slice(0, length).flatMap((property: keyof T) =>
+            [property, entityInstance[property]] as Deno.KvKeyPart[]
+          ),
+        );
+        if (!keys.some((other: Deno.KvKey) => isSameKvKey(other, key))) {
+          keys.push(key);
+        }
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Add the mutations to update the index of the {@link EntityDefinition#searchableProperties} for a change of an
+   * EntityInstance, to an atomic operation. Does nothing, unless the EntityDefinition has searchable properties.
+   * Soft deleted EntityInstances stay in the index, like at their other keys.
+   * @param atomic The atomic operation to add the mutations to.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance.
+   * @param before The EntityInstance before the change, if it existed.
+   * @param after The EntityInstance after the change, if it still exists.
+   * @param expireIn When the keys of the index expire, the same as the other keys of the EntityInstance.
+   * @private
+   */
+  private planSearchIndex<T extends Ts>(
+    atomic: Deno.AtomicOperation,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    before: Maybe<T>,
+    after: Maybe<T>,
+    expireIn: Maybe<number>,
+  ): void {
+    const properties: Array<keyof T> =
+      this.getEntityDefinition(entityDefinitionId).searchableProperties ?? [];
+    if (properties.length === 0) {
+      return;
+    }
+    // the value of each key is how often its word occurs, to rank by
+    const getIndexEntries = (
+      entityInstance: Maybe<T>,
+    ): [Deno.KvKey, number][] =>
+      isDefined(entityInstance)
+        ? [...countTokens(entityInstance, properties)].map((
+          [token, count],
+        ) => [
+          this.getSystemKey(
+            "search",
+            entityDefinitionId,
+            token,
+            ...this.getPrimaryKeyParts(entityDefinitionId, entityInstance),
+          ),
+          count,
+        ])
+        : [];
+    const afterEntries: [Deno.KvKey, number][] = getIndexEntries(after);
+    for (const [key] of getIndexEntries(before)) {
+      if (!afterEntries.some(([afterKey]) => isSameKvKey(afterKey, key))) {
+        atomic.delete(key);
+      }
+    }
+    for (const [key, count] of afterEntries) {
+      atomic.set(key, count, { expireIn });
+    }
+  }
+
+  /**
+   * Remember a function to call once the atomic operation is committed.
+   * @param atomic The atomic operation to wait for.
+   * @param afterHook The function to call.
+   * @private
+   */
+  private addAfterHook(
+    atomic: Deno.AtomicOperation,
+    afterHook: () => Promise<void>,
+  ): void {
+    const afterHooks: (() => Promise<void>)[] =
+      this.pendingAfterHooks.get(atomic) ?? [];
+    afterHooks.push(afterHook);
+    this.pendingAfterHooks.set(atomic, afterHooks);
+  }
+
+  /**
+   * Remember a change to append to the changelog, when the atomic operation is committed. Does nothing, unless
+   * {@link DbConfig#changelog} is enabled.
+   * @param atomic The atomic operation that makes the change.
+   * @param entityDefinitionId The id of the EntityDefinition of the changed EntityInstance.
+   * @param primaryKey The primary key of the changed EntityInstance.
+   * @param operation What changes the EntityInstance.
+   * @param states The EntityInstance before and after the change.
+   * @private
+   */
+  private recordChange<T extends Ts>(
+    atomic: Deno.AtomicOperation,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    primaryKey: Deno.KvKey,
+    operation: ChangeOperation,
+    states: Pick<ChangeEvent<T>, "before" | "after">,
+  ): void {
+    if (!this.config.changelog) {
+      return;
+    }
+    const changes: PendingChange[] = this.pendingChanges.get(atomic) ?? [];
+    changes.push({
+      timestamp: new Date(),
+      entityDefinitionId,
+      primaryKey,
+      operation,
+      ...states,
+    });
+    this.pendingChanges.set(atomic, changes);
+  }
+
+  /**
+   * Add the changes recorded for an atomic operation to the changelog, each at a new {@link ChangeEvent#id}. Nothing is
+   * read or checked, so that logging does not make concurrent changes of other EntityInstances conflict.
+   * @param atomic The atomic operation to add the changes to.
+   * @private
+   */
+  private planChangelog(atomic: Deno.AtomicOperation): void {
+    for (const change of this.pendingChanges.get(atomic) ?? []) {
+      const id: string = this.createChangeId();
+      atomic.set(this.getSystemKey("changes", id), { id, ...change });
+    }
+  }
+
+  /**
+   * Create a {@link ChangeEvent#id}: the time in milliseconds, a count of the ids created at that time, and random
+   * digits, so that ids of different EntityDbs do not collide. Each part has a fixed length, so the ids sort by time,
+   * and those of this EntityDb in the order they were created, even if the clock is set back.
+   * @private
+   */
+  private createChangeId(): string {
+    const now: number = Date.now();
+    if (now > this.lastChangeTime) {
+      this.lastChangeTime = now;
+      this.changesAtLastTime = 0;
+    } else {
+      this.changesAtLastTime++;
+    }
+    const random: string = [...crypto.getRandomValues(new Uint8Array(4))]
+      .map((byte: number) => byte.toString(16).padStart(2, "0"))
+      .join("");
+    return this.lastChangeTime.toString(36).padStart(9, "0") +
+      this.changesAtLastTime.toString(36).padStart(4, "0") + random;
+  }
+
+  /**
+   * Decide what to store at a key, depending on {@link DbConfig#valueStorage}.
+   * @param key The key to store the value at.
+   * @param primaryKey The primary key of the EntityInstance.
+   * @param entityInstance The EntityInstance being stored.
+   * @returns the EntityInstance itself, or its primary key as a reference to it.
+   * @private
+   */
+  private getValueToStore<T extends Ts>(
+    key: Deno.KvKey,
+    primaryKey: Deno.KvKey,
+    entityInstance: T,
+  ): T | Deno.KvKey {
+    if (
+      this.config.valueStorage === "references" && !isSameKvKey(key, primaryKey)
+    ) {
+      return primaryKey;
+    }
+    return entityInstance;
+  }
+
+  /**
+   * Replace any entries that hold a reference to a primary key, with the entry at that primary key. Referenced entries
+   * are fetched in batches. References to missing entries are left out.
+   *
+   * Entries holding EntityInstances are returned as they are, so this works regardless of
+   * {@link DbConfig#valueStorage}.
+   * @param connection The Deno.Kv to read referenced entries from.
+   * @param entries The entries to resolve.
+   * @returns the resolved entries, in the same order.
+   * @private
+   */
+  private async resolveEntries<T extends Ts>(
+    connection: Deno.Kv,
+    entries: Deno.KvEntry<T | Deno.KvKey>[],
+  ): Promise<Deno.KvEntry<T>[]> {
+    const referencedKeys: Deno.KvKey[] = entries
+      .map(prop("value"))
+      .filter(isKvKey) as Deno.KvKey[];
+    const referencedEntries: Deno.KvEntryMaybe<T>[] = await getManyEntries<T>(
+      connection,
+      referencedKeys,
+    );
+
+    const result: Deno.KvEntry<T>[] = [];
+    for (const entry of entries) {
+      const resolvedEntry: Maybe<Deno.KvEntryMaybe<T>> = isKvKey(entry.value)
+        ? referencedEntries.shift()
+        : entry as Deno.KvEntry<T>;
+      if (isDefined(resolvedEntry) && resolvedEntry.value !== null) {
+        result.push(resolvedEntry as Deno.KvEntry<T>);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Resolve entries like {@link EntityDb#resolveEntries}, and get their EntityInstances.
+   * @param connection The Deno.Kv to read referenced entries from.
+   * @param entries The entries to resolve.
+   * @param includeDeleted Whether to keep soft deleted EntityInstances. See {@link EntityDefinition#softDelete}.
+   * @returns the EntityInstances, in the same order.
+   * @private
+   */
+  private async resolveValues<T extends Ts>(
+    connection: Deno.Kv,
+    entries: Deno.KvEntry<T | Deno.KvKey>[],
+    includeDeleted = false,
+  ): Promise<T[]> {
+    const resolvedEntries: Deno.KvEntry<T>[] = await this.resolveEntries(
+      connection,
+      entries,
+    );
+    return resolvedEntries
+      .filter(({ key, value }) =>
+        includeDeleted || !this.isSoftDeleted(key, value)
+      )
+      .map(prop("value")) as T[];
+  }
+
+  /**
+   * Resolve entries that may be missing, like {@link EntityDb#resolveEntries}, and get their EntityInstances. Unlike
+   * that, the result has a value for each entry, so it can be matched up by position.
+   * @param connection The Deno.Kv to read referenced entries from.
+   * @param entries The entries to resolve.
+   * @returns the EntityInstances, in the same order, with undefined for each that is missing or soft deleted.
+   * @private
+   */
+  private async resolveMaybeValues<T extends Ts>(
+    connection: Deno.Kv,
+    entries: Deno.KvEntryMaybe<T | Deno.KvKey>[],
+  ): Promise<Maybe<T>[]> {
+    const referencedEntries: Deno.KvEntryMaybe<T>[] = await getManyEntries<T>(
+      connection,
+      entries.map(prop("value")).filter(isKvKey) as Deno.KvKey[],
+    );
+    return entries.map(({ key, value }) => {
+      const resolved: T | null = isKvKey(value)
+        ? referencedEntries.shift()!.value
+        : value;
+      return resolved === null || this.isSoftDeleted(key, resolved)
+        ? undefined
+        : resolved;
+    });
+  }
+
+  /**
+   * Load the {@link EntityDefinition#relations} named in {@link FindOptions#include}, for EntityInstances of one
+   * EntityDefinition. Belongs-to relations are loaded with batched reads of their unique keys, has-many relations
+   * with one list per EntityInstance.
+   * @param connection The Deno.Kv to read the related EntityInstances from.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstances.
+   * @param entityInstances The EntityInstances to load the relations for.
+   * @param include The names of the relations to load, if any.
+   * @returns copies of the EntityInstances, with a property for each loaded relation, in the same order.
+   * @private
+   */
+  private async loadRelations<T extends Ts>(
+    connection: Deno.Kv,
+    entityDefinitionId: Maybe<ExtractEntityDefinitionId<T>>,
+    entityInstances: T[],
+    include: Maybe<string[]>,
+  ): Promise<T[]> {
+    if (!isDefined(include) || include.length === 0) {
+      return entityInstances;
+    }
+    if (!isDefined(entityDefinitionId)) {
+      throw new Error(
+        "entityDefinitionId must be provided to include relations",
+      );
+    }
+    const relations: Record<string, Relation<T>> =
+      this.getEntityDefinition(entityDefinitionId).relations ?? {};
+    const results: Record<string, unknown>[] = entityInstances.map((
+      entityInstance: T,
+    ) => ({ ...entityInstance }));
+    for (const relationName of include) {
+      const relation: Maybe<Relation<T>> = relations[relationName];
+      if (!isDefined(relation)) {
+        throw new Error(
+          `${entityDefinitionId} has no relation named ${relationName}`,
+        );
+      }
+      const relatedEntityDefinitionId = relation
+        .entityDefinitionId as ExtractEntityDefinitionId<Ts>;
+      const values: unknown[] = entityInstances.map(prop(relation.property));
+      if (relation.kind === "belongsTo") {
+        const referringIndexes: number[] = values
+          .map((value: unknown, i: number) => isKvKeyPart(value) ? i : -1)
+          .filter((i: number) => i >= 0);
+        const related: Maybe<Ts>[] = await this.resolveMaybeValues(
+          connection,
+          await getManyEntries<Ts | Deno.KvKey>(
+            connection,
+            referringIndexes.map((i: number) =>
+              this.getUniqueKey(
+                relatedEntityDefinitionId,
+                relation.relatedProperty as keyof Ts,
+                values[i] as Ts[keyof Ts],
+              )
+            ),
+          ),
+        );
+        for (const result of results) {
+          result[relationName] = undefined;
+        }
+        referringIndexes.forEach((i: number, j: number) => {
+          results[i][relationName] = related[j];
+        });
+      } else {
+        for (const [i, value] of values.entries()) {
+          if (!isKvKeyPart(value)) {
+            results[i][relationName] = [];
+            continue;
+          }
+          const lookup = [[relation.relatedProperty, value]] as PropertyLookup<
+            Ts
+          >;
+          results[i][relationName] = await this.resolveValues(
+            connection,
+            await this.listKeysOfLookup(
+              connection,
+              relatedEntityDefinitionId,
+              lookup,
+            ),
+          );
+        }
+      }
+    }
+    return results as T[];
+  }
+
+  /**
+   * Read the entry at a key, resolving it if it holds a reference.
+   * @param connection The Deno.Kv to read from.
+   * @param key The key to read.
+   * @returns the entry holding the EntityInstance, or undefined if there is none.
+   * @private
+   */
+  private async readEntry<T extends Ts>(
+    connection: Deno.Kv,
+    key: Deno.KvKey,
+  ): Promise<Maybe<Deno.KvEntry<T>>> {
+    const entry: Deno.KvEntryMaybe<T | Deno.KvKey> = await connection.get<
+      T | Deno.KvKey
+    >(key);
+    if (entry.value === null) {
+      return undefined;
+    }
+    const [resolvedEntry]: Deno.KvEntry<T>[] = await this.resolveEntries(
+      connection,
+      [entry as Deno.KvEntry<T | Deno.KvKey>],
+    );
+    return resolvedEntry;
+  }
+
+  /**
+   * Deletes all EntityInstance's for a given EntityDefinition.id.
+   *
+   * For example: deleteAll("person") will delete all Person's.
+   *
+   * @param entityDefinitionId The id of the EntityDefinition to delete all instances of.
+   * @param options How to delete them.
+   */
+  async clearEntity<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    options: ClearOptions = {},
+  ): Promise<void> {
+    if (typeof entityDefinitionId !== "string") {
+      throw new Error(
+        "EntityDefinition id must be a string. If you want to clear all entities, use clearAllEntities() instead.",
+      );
+    }
+    await this._clearEntity(options, entityDefinitionId);
+  }
+
+  /**
+   * Deletes all EntityInstance's known by this EntityDb
+   * @param options How to delete them.
+   */
+  async clearAllEntities(options: ClearOptions = {}): Promise<void> {
+    await this._clearEntity(options);
+  }
+
+  private async _clearEntity<T extends Ts | never>(
+    options: ClearOptions,
+    entityId?: ExtractEntityDefinitionId<T>,
+  ): Promise<void> {
+    const selector: Deno.KvListSelector = this.getListSelector(entityId);
+    const batchSize: number = options.atomic
+      ? MAX_ATOMIC_MUTATIONS
+      : options.batchSize ?? MAX_ATOMIC_MUTATIONS;
+    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
+      let deleted = 0;
+      let batch: Deno.KvEntry<unknown>[] = [];
+      // with a changelog, each deleted EntityInstance takes another mutation
+      let mutations = 0;
+      const deleteBatch = async (): Promise<void> => {
+        await this.commitWithRetries(
+          connection,
+          (atomic: Deno.AtomicOperation) => {
+            for (const { key, value } of batch) {
+              atomic.delete(key);
+              if (this.isPrimaryEntry(key, value)) {
+                this.recordChange(
+                  atomic,
+                  this.getEntityDefinitionIdOfKey(key)!,
+                  key,
+                  "clear",
+                  { before: value as Ts },
+                );
+              }
+            }
+            return Promise.resolve();
+          },
+        );
+        deleted += batch.length;
+        batch = [];
+        mutations = 0;
+        options.onProgress?.({ deleted });
+      };
+
+      // the counters and search indexes of the EntityDefinitions are cleared along with them
+      for (
+        const entriesSelector of [
+          selector,
+          this.getSystemKeysSelector("counts", entityId),
+          this.getSystemKeysSelector("search", entityId),
+          this.getSystemKeysSelector("expiresAt", entityId),
+          this.getSystemKeysSelector("versions", entityId),
+        ]
+      ) {
+        for await (const entry of connection.list(entriesSelector)) {
+          const entryMutations: number = this.config.changelog &&
+              this.isPrimaryEntry(entry.key, entry.value)
+            ? 2
+            : 1;
+          if (mutations + entryMutations > batchSize) {
+            if (options.atomic) {
+              throw new Error(
+                `Can not clear atomically, because there are more keys to delete than fit in one atomic operation of ${MAX_ATOMIC_MUTATIONS} mutations. Nothing was deleted.`,
+              );
+            }
+            await deleteBatch();
+          }
+          batch.push(entry);
+          mutations += entryMutations;
+        }
+      }
+      if (batch.length > 0) {
+        await deleteBatch();
+      }
+    });
+  }
+
+  /**
+   * Find an EntityInstance in the db.
+   * @param entityDefinitionId The id of the EntityDefinition to find the EntityInstance for.
+   * @param uniquePropertyName The unique property to find the EntityInstance for, or a tuple of unique properties, like
+   * ["customerEmail", "invoiceNumber"].
+   * @param uniquePropertyValue The unique property value to find the EntityInstance for, or the values of the tuple.
+   * @param options Options for finding.
+   * @returns the EntityInstance, or undefined if not found at the given key.
+   */
+  async find<
+    T extends Ts,
+  >(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+    options: FindOptions = {},
+  ): Promise<Maybe<T>> {
+    const versioned: Maybe<Versioned<T>> = await this.findWithVersion(
+      entityDefinitionId,
+      uniquePropertyName,
+      uniquePropertyValue,
+      options,
+    );
+    return versioned?.value;
+  }
+
+  /**
+   * Find an EntityInstance in the db, together with its versionstamp.
+   *
+   * Pass the versionstamp as {@link SaveOptions#expectedVersionstamp} when saving a modified EntityInstance, to make
+   * sure nobody else modified it in between.
+   * @param entityDefinitionId The id of the EntityDefinition to find the EntityInstance for.
+   * @param uniquePropertyName The unique property to find the EntityInstance for, or a tuple of unique properties, like
+   * ["customerEmail", "invoiceNumber"].
+   * @param uniquePropertyValue The unique property value to find the EntityInstance for, or the values of the tuple.
+   * @param options Options for finding.
+   * @returns the EntityInstance and its versionstamp, or undefined if not found at the given key.
+   */
+  async findWithVersion<
+    T extends Ts,
+  >(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+    options: FindOptions = {},
+  ): Promise<Maybe<Versioned<T>>> {
+    const key: Deno.KvKey = this.getUniqueKey(
+      entityDefinitionId,
+      uniquePropertyName,
+      uniquePropertyValue,
+    );
+    return await this._doWithConnection(
+      {} as Maybe<Versioned<T>>,
+      async (connection: Deno.Kv) => {
+        const entry: Maybe<Deno.KvEntry<T>> = await this.readEntry(
+          connection,
+          key,
+        );
+        if (
+          !isDefined(entry) ||
+          (!options.includeDeleted &&
+            this.isSoftDeleted(entry.key, entry.value))
+        ) {
+          return undefined;
+        }
+        const [value]: T[] = await this.loadRelations(
+          connection,
+          entityDefinitionId,
+          [entry.value],
+          options.include,
+        );
+        return {
+          value,
+          versionstamp: entry.versionstamp,
+        };
+      },
+    );
+  }
+
+  /**
+   * Find when an EntityInstance expires, see {@link SaveOptions#expireIn}.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance.
+   * @param entityInstance The EntityInstance, of which only the first unique property is used.
+   * @returns when it expires, or undefined if it does not.
+   */
+  async getExpiry<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+  ): Promise<Maybe<Date>> {
+    const connection: Deno.Kv = await this.acquireConnection();
+    try {
+      const [expiresAt] = await this.getExpiresAt(
+        connection,
+        entityDefinitionId,
+        [this.getUniqueKeys(entityDefinitionId, entityInstance)[0]],
+      );
+      return isDefined(expiresAt) ? new Date(expiresAt) : undefined;
+    } finally {
+      this.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * Delete an EntityInstance from the db.
+   * @param entityDefinitionId The id of the EntityDefinition to delete the EntityInstance from.
+   * @param uniquePropertyName The unique property, or tuple of unique properties, to delete the EntityInstance for.
+   * @param uniquePropertyValue The unique property value, or the values of the tuple, to delete the EntityInstance for.
+   * @param options Options for deleting.
+   */
+  async delete<
+    T extends Ts,
+  >(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+    options: DeleteOptions = {},
+  ): Promise<void> {
+    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
+      await this.commitWithRetries(
+        connection,
+        async (atomic: Deno.AtomicOperation) => {
+          await this.planDelete(
+            connection,
+            atomic,
+            entityDefinitionId,
+            uniquePropertyName,
+            uniquePropertyValue,
+            options,
+          );
+        },
+      );
+    });
+  }
+
+  /**
+   * Delete an EntityInstance from the db.
+   * @param entityDefinitionId The id of the EntityDefinition to delete the EntityInstance from.
+   * @param entityInstance The EntityInstance to delete.
+   * @param options Options for deleting.
+   */
+  async deleteEntityInstance<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+    options: DeleteOptions = {},
+  ): Promise<void> {
+    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
+      await this.commitWithRetries(
+        connection,
+        async (atomic: Deno.AtomicOperation) => {
+          await this.planDeleteEntityInstance(
+            connection,
+            atomic,
+            entityDefinitionId,
+            entityInstance,
+            options,
+          );
+        },
+      );
+    });
+  }
+
+  /**
+   * Undo the soft delete of an EntityInstance, by removing its `deletedAt` property. See
+   * {@link EntityDefinition#softDelete}.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance to restore.
+   * @param uniquePropertyName The unique property, or tuple of unique properties, to find the EntityInstance by.
+   * @param uniquePropertyValue The unique property value, or the values of the tuple, to find the EntityInstance by.
+   * @returns the restored EntityInstance, or undefined if there is none. One that was not deleted is returned as it is.
+   */
+  async restore<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+  ): Promise<Maybe<T>> {
+    const key: Deno.KvKey = this.getUniqueKey(
+      entityDefinitionId,
+      uniquePropertyName,
+      uniquePropertyValue,
+    );
+    return await this._doWithConnection(
+      undefined as Maybe<T>,
+      async (connection: Deno.Kv) => {
+        return await this.commitWithRetries(
+          connection,
+          async (atomic: Deno.AtomicOperation) => {
+            const entry: Maybe<Deno.KvEntry<T>> = await this.readEntry(
+              connection,
+              key,
+            );
+            atomic.check(entry ?? { key, versionstamp: null });
+            if (
+              !isDefined(entry) || !this.isSoftDeleted(entry.key, entry.value)
+            ) {
+              return entry?.value;
+            }
+            const restoredEntityInstance: T = { ...entry.value };
+            delete (restoredEntityInstance as { deletedAt?: Date }).deletedAt;
+            const [expiresAt] = await this.getExpiresAt(
+              connection,
+              entityDefinitionId,
+              [entry.key],
+            );
+            this.planSet(
+              atomic,
+              entityDefinitionId,
+              restoredEntityInstance,
+              expiresAt,
+            );
+            this.planCounters(
+              atomic,
+              entityDefinitionId,
+              entry.value,
+              restoredEntityInstance,
+            );
+            this.recordChange(
+              atomic,
+              entityDefinitionId,
+              entry.key,
+              "restore",
+              {
+                before: entry.value,
+                after: restoredEntityInstance,
+              },
+            );
+            return restoredEntityInstance;
+          },
+        );
+      },
+    );
+  }
+
+  /**
+   * Add the checks and mutations needed to delete an EntityInstance, found by a unique property, to an atomic
+   * operation.
+   * @param connection The Deno.Kv to read the currently stored values from.
+   * @param atomic The atomic operation to add checks and mutations to.
+   * @param entityDefinitionId The id of the EntityDefinition to delete the EntityInstance from.
+   * @param uniquePropertyName The unique property, or tuple of unique properties, to delete the EntityInstance for.
+   * @param uniquePropertyValue The unique property value, or the values of the tuple, to delete the EntityInstance for.
+   * @param options Options for deleting.
+   * @private
+   */
+  private async planDelete<T extends Ts>(
+    connection: Deno.Kv,
+    atomic: Deno.AtomicOperation,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+    options: DeleteOptions,
+  ): Promise<void> {
+    const key: Deno.KvKey = this.getUniqueKey(
+      entityDefinitionId,
+      uniquePropertyName,
+      uniquePropertyValue,
+    );
+    const entry: Deno.KvEntryMaybe<T | Deno.KvKey> = await connection.get<
+      T | Deno.KvKey
+    >(key);
+    atomic.check(entry);
+    if (entry.value === null) {
+      return;
+    }
+    const [resolvedEntry]: Deno.KvEntry<T>[] = await this.resolveEntries(
+      connection,
+      [entry as Deno.KvEntry<T | Deno.KvKey>],
+    );
+    if (isDefined(resolvedEntry)) {
+      await this.planDeleteEntityInstance(
+        connection,
+        atomic,
+        entityDefinitionId,
+        resolvedEntry.value,
+        options,
+      );
+    }
+  }
+
+  /**
+   * Add the checks and mutations needed to delete an EntityInstance, to an atomic operation. If its EntityDefinition
+   * has {@link EntityDefinition#softDelete}, it is only marked as deleted, unless the delete is permanent.
+   * @param connection The Deno.Kv to read the currently stored values from.
+   * @param atomic The atomic operation to add checks and mutations to.
+   * @param entityDefinitionId The id of the EntityDefinition to delete the EntityInstance from.
+   * @param entityInstance The EntityInstance to delete.
+   * @param options Options for deleting.
+   * @private
+   */
+  private async planDeleteEntityInstance<T extends Ts>(
+    connection: Deno.Kv,
+    atomic: Deno.AtomicOperation,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+    options: DeleteOptions,
+  ): Promise<void> {
+    // find all keys the same way as when saving, also for any differing version that is actually stored
+    const existingEntry: Deno.KvEntryMaybe<T> = await connection.get<T>(
+      this.getUniqueKeys(entityDefinitionId, entityInstance)[0],
+    );
+    atomic.check(existingEntry);
+    const storedEntityInstance: T | null = existingEntry.value;
+    const softDelete: boolean =
+      this.getEntityDefinition(entityDefinitionId).softDelete === true &&
+      !options.permanent;
+    if (
+      softDelete &&
+      (storedEntityInstance === null ||
+        this.isSoftDeleted(existingEntry.key, storedEntityInstance))
+    ) {
+      return;
+    }
+
+    if (storedEntityInstance !== null) {
+      const hooks: Maybe<EntityHooks<T>>[] = this.getHooks(entityDefinitionId);
+      await callHooks(
+        hooks,
+        "beforeDelete",
+        entityDefinitionId,
+        storedEntityInstance,
+      );
+      await this.planRelatedDeletes(
+        connection,
+        atomic,
+        entityDefinitionId,
+        storedEntityInstance,
+        options,
+      );
+      this.addAfterHook(
+        atomic,
+        () =>
+          callHooks(
+            hooks,
+            "afterDelete",
+            entityDefinitionId,
+            storedEntityInstance,
+          ),
+      );
+    }
+
+    if (softDelete) {
+      const deletedEntityInstance: T = {
+        ...storedEntityInstance!,
+        deletedAt: new Date(),
+      };
+      const [expiresAt] = await this.getExpiresAt(
+        connection,
+        entityDefinitionId,
+        [existingEntry.key],
+      );
+      this.planSet(
+        atomic,
+        entityDefinitionId,
+        deletedEntityInstance,
+        expiresAt,
+      );
+      this.planCounters(
+        atomic,
+        entityDefinitionId,
+        storedEntityInstance!,
+        deletedEntityInstance,
+      );
+      this.recordChange(
+        atomic,
+        entityDefinitionId,
+        existingEntry.key,
+        "delete",
+        { before: storedEntityInstance!, after: deletedEntityInstance },
+      );
+      return;
+    }
+
+    const keys: Deno.KvKey[] = this.getAllKeys(
+      entityDefinitionId,
+      entityInstance,
+    );
+    if (storedEntityInstance !== null) {
+      keys.push(
+        ...this.getAllKeys(entityDefinitionId, storedEntityInstance)
+          .filter((existingKey: Deno.KvKey) =>
+            !keys.some((key: Deno.KvKey) => isSameKvKey(key, existingKey))
+          ),
+      );
+      this.planCounters(
+        atomic,
+        entityDefinitionId,
+        storedEntityInstance,
+        undefined,
+      );
+      this.planSearchIndex(
+        atomic,
+        entityDefinitionId,
+        storedEntityInstance,
+        undefined,
+        undefined,
+      );
+      this.recordChange(
+        atomic,
+        entityDefinitionId,
+        existingEntry.key,
+        "delete",
+        { before: storedEntityInstance },
+      );
+    }
+    for (const key of keys) {
+      atomic.delete(key);
+    }
+    atomic.delete(this.getEntitySystemKey("expiresAt", existingEntry.key));
+    atomic.delete(this.getEntitySystemKey("versions", existingEntry.key));
+  }
+
+  /**
+   * Apply the {@link HasManyRelation#onDelete} actions of an EntityInstance's relations, as part of deleting it.
+   *
+   * The related EntityInstances are listed, not checked, so one inserted concurrently is not noticed.
+   * @param connection The Deno.Kv to read the related EntityInstances from.
+   * @param atomic The atomic operation to add checks and mutations to.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance being deleted.
+   * @param entityInstance The stored EntityInstance being deleted.
+   * @param options Options for deleting, also used for deleting related EntityInstances.
+   * @throws ReferentialIntegrityError if a relation with `onDelete: "restrict"` has related EntityInstances.
+   * @private
+   */
+  private async planRelatedDeletes<T extends Ts>(
+    connection: Deno.Kv,
+    atomic: Deno.AtomicOperation,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+    options: DeleteOptions,
+  ): Promise<void> {
+    const relations: Record<string, Relation<T>> =
+      this.getEntityDefinition(entityDefinitionId).relations ?? {};
+    for (const [relationName, relation] of Object.entries(relations)) {
+      if (relation.kind !== "hasMany" || !isDefined(relation.onDelete)) {
+        continue;
+      }
+      const relatedEntityDefinitionId = relation
+        .entityDefinitionId as ExtractEntityDefinitionId<Ts>;
+      const value: unknown = entityInstance[relation.property];
+      if (!isKvKeyPart(value)) {
+        continue;
+      }
+      // soft deleted ones still refer to the EntityInstance, unless they are deleted for good along with it
+      const related: Ts[] = await this.resolveValues(
+        connection,
+        await this.listKeysOfLookup(
+          connection,
+          relatedEntityDefinitionId,
+          [[relation.relatedProperty, value]] as PropertyLookup<Ts>,
+        ),
+        options.permanent,
+      );
+      if (related.length === 0) {
+        continue;
+      }
+      switch (relation.onDelete) {
+        case "restrict":
+          throw new ReferentialIntegrityError(entityDefinitionId, relationName);
+        case "cascade":
+          for (const relatedEntityInstance of related) {
+            await this.planDeleteEntityInstance(
+              connection,
+              atomic,
+              relatedEntityDefinitionId,
+              relatedEntityInstance,
+              options,
+            );
+          }
+          break;
+        case "setNull": {
+          const expiresAts: Maybe<number>[] = await this.getExpiresAt(
+            connection,
+            relatedEntityDefinitionId,
+            related.map((relatedEntityInstance: Ts) =>
+              this.getUniqueKeys(
+                relatedEntityDefinitionId,
+                relatedEntityInstance,
+              )[0]
+            ),
+          );
+          for (const [i, relatedEntityInstance] of related.entries()) {
+            await this.planSave(
+              connection,
+              atomic,
+              relatedEntityDefinitionId,
+              {
+                ...relatedEntityInstance,
+                [relation.relatedProperty]: null,
+              },
+              { expireIn: getRemainingExpireIn(expiresAts[i]) },
+              false,
+            );
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Run a function that saves and deletes any number of EntityInstances, committing all of it atomically.
+   *
+   * For example:
+   *
+   * ```ts
+   * await db.transaction(async (tx) => {
+   *   await tx.save("person", alice);
+   *   await tx.save("invoice", invoice);
+   * });
+   * ```
+   *
+   * The operations of the transaction read the db as it was before the transaction, not each other's changes. If
+   * anything they read is modified by someone else before the commit, the whole function is run again, so it should
+   * not have other side effects.
+   * @param fn The function to run, with a {@link Transaction} to use for the operations.
+   * @returns whatever the function returned.
+   * @throws ConcurrentModificationError if the commit kept failing because of concurrent modifications.
+   */
+  async transaction<R>(
+    fn: (tx: Transaction<Ts>) => Promise<R> | R,
+  ): Promise<R> {
+    let result: R = undefined as R;
+    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
+      result = await this.commitWithRetries(
+        connection,
+        async (atomic: Deno.AtomicOperation) => {
+          // operations that were not awaited by fn must still be part of the commit
+          const pending: Promise<unknown>[] = [];
+          // the operations run one after the other, to know which of them writes each key
+          let queue: Promise<unknown> = Promise.resolve();
+          let operationCount: number = 0;
+          let currentOperation: Maybe<number>;
+          const run = <P>(operation: () => Promise<P>): Promise<P> => {
+            const operationNumber: number = ++operationCount;
+            const promise: Promise<P> = queue.then(async () => {
+              currentOperation = operationNumber;
+              try {
+                return await operation();
+              } finally {
+                currentOperation = undefined;
+              }
+            });
+            queue = promise.catch(() => VOID);
+            pending.push(promise);
+            // handled here as well, in case it rejects while fn is still running, before it is settled below
+            promise.catch(() => VOID);
+            return promise;
+          };
+          // each operation plans against the db as it was before the transaction, not against the keys written by the
+          // others, so two operations writing the same key would leave keys of the first one behind
+          const writtenBy: Map<string, number> = new Map();
+          const claim = (key: Deno.KvKey): void => {
+            if (!isDefined(currentOperation)) {
+              return;
+            }
+            const keyId: string = getKvKeyId(key);
+            const writer: Maybe<number> = writtenBy.get(keyId);
+            if (isDefined(writer) && writer !== currentOperation) {
+              throw new TransactionConflictError(key);
+            }
+            writtenBy.set(keyId, currentOperation);
+          };
+          const { set, delete: remove } = atomic;
+          atomic.set = (key, value, options) => {
+            claim(key);
+            return set.call(atomic, key, value, options);
+          };
+          atomic.delete = (key) => {
+            claim(key);
+            return remove.call(atomic, key);
+          };
+          const tx: Transaction<Ts> = {
+            find: (
+              entityDefinitionId,
+              uniquePropertyName,
+              uniquePropertyValue,
+            ) =>
+              run(async () => {
+                const key: Deno.KvKey = this.getUniqueKey(
+                  entityDefinitionId,
+                  uniquePropertyName,
+                  uniquePropertyValue,
+                );
+                const entry = await this.readEntry(connection, key);
+                atomic.check(
+                  entry ?? { key, versionstamp: null },
+                );
+                return isDefined(entry) &&
+                    !this.isSoftDeleted(entry.key, entry.value)
+                  ? entry.value
+                  : undefined;
+              }),
+            save: (entityDefinitionId, entityInstance, options = {}) =>
+              run(() =>
+                this.planSave(
+                  connection,
+                  atomic,
+                  entityDefinitionId,
+                  entityInstance,
+                  options,
+                  false,
+                ).then(() => VOID)
+              ),
+            insert: (entityDefinitionId, entityInstance, options = {}) =>
+              run(() =>
+                this.planSave(
+                  connection,
+                  atomic,
+                  entityDefinitionId,
+                  entityInstance,
+                  options,
+                  true,
+                ).then(() => VOID)
+              ),
+            delete: (
+              entityDefinitionId,
+              uniquePropertyName,
+              uniquePropertyValue,
+              options = {},
+            ) =>
+              run(() =>
+                this.planDelete(
+                  connection,
+                  atomic,
+                  entityDefinitionId,
+                  uniquePropertyName,
+                  uniquePropertyValue,
+                  options,
+                )
+              ),
+            deleteEntityInstance: (
+              entityDefinitionId,
+              entityInstance,
+              options = {},
+            ) =>
+              run(() =>
+                this.planDeleteEntityInstance(
+                  connection,
+                  atomic,
+                  entityDefinitionId,
+                  entityInstance,
+                  options,
+                )
+              ),
+          };
+          let fnResult: R;
+          try {
+            fnResult = await fn(tx);
+          } finally {
+            // if fn throws, the operations it did not await must not reject unhandled afterwards
+            await Promise.allSettled(pending);
+          }
+          await Promise.all(pending);
+          return fnResult;
+        },
+      );
+    });
+    return result;
+  }
+
+  /**
+   * Read the changelog, in the order the changes were made. Requires {@link DbConfig#changelog} to be enabled.
+   *
+   * For example, to feed changes to another system, remember the {@link ChangeEvent#id} of the last change read, and
+   * pass it as {@link ChangesOptions#since} the next time.
+   * @param options Which changes to read.
+   * @returns the changes.
+   */
+  async changes<T extends Ts>(
+    options: ChangesOptions = {},
+  ): Promise<ChangeEvent<T>[]> {
+    const prefix: Deno.KvKey = this.getSystemKey("changes");
+    const selector: Deno.KvListSelector = isDefined(options.since)
+      ? { prefix, start: [...prefix, nextKvKeyPart(options.since)!] }
+      : { prefix };
+    let changes: ChangeEvent<T>[] = [];
+    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
+      const entries: Deno.KvEntry<ChangeEvent<T>>[] = await asArray(
+        connection.list<ChangeEvent<T>>(selector, { limit: options.limit }),
+      );
+      changes = entries.map(prop("value")) as ChangeEvent<T>[];
+    });
+    return changes;
+  }
+
+  /**
+   * Find out which EntityDefinitions have changed, since they were last migrated with {@link EntityDb#migrate} or
+   * {@link EntityDb#reindex}. An EntityDefinition that has never been migrated counts as changed.
+   * @returns the changes, one per changed EntityDefinition.
+   */
+  async getSchemaChanges(): Promise<SchemaChange[]> {
+    let changes: SchemaChange[] = [];
+    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
+      changes = await this._getSchemaChanges(connection);
+    });
+    return changes;
+  }
+
+  /**
+   * Migrate all EntityDefinitions that have changed since they were last migrated, by rewriting all their
+   * EntityInstances.
+   *
+   * Each EntityInstance is passed through any {@link EntityDefinition#migrations} for versions after the stored one,
+   * and then stored at all keys of the current EntityDefinition. Keys that are no longer used, for example of removed
+   * {@link EntityDefinition#indexedPropertyChains}, are deleted.
+   * @param options How to migrate.
+   * @returns the changes that were migrated.
+   */
+  async migrate(options: MigrateOptions = {}): Promise<SchemaChange[]> {
+    let changes: SchemaChange[] = [];
+    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
+      changes = await this._getSchemaChanges(connection);
+      for (const change of changes) {
+        await this._reindex(
+          connection,
+          change.entityDefinitionId as ExtractEntityDefinitionId<Ts>,
+          change.stored,
+          options,
+        );
+      }
+    });
+    return changes;
+  }
+
+  /**
+   * Rebuild all keys of all EntityInstances of an EntityDefinition, and delete any keys that are no longer used.
+   *
+   * Same as {@link EntityDb#migrate}, but for one EntityDefinition, whether it has changed or not.
+   * @param entityDefinitionId The id of the EntityDefinition to reindex.
+   * @param options How to reindex.
+   */
+  async reindex<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    options: MigrateOptions = {},
+  ): Promise<void> {
+    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
+      const stored: Deno.KvEntryMaybe<StoredEntityDefinition> = await connection
+        .get<StoredEntityDefinition>(
+          this.getSystemKey("definitions", entityDefinitionId),
+        );
+      await this._reindex(
+        connection,
+        entityDefinitionId,
+        stored.value ?? undefined,
+        options,
+      );
+    });
+  }
+
+  /**
+   * Check that all keys of EntityInstances are consistent with each other, and optionally repair them.
+   *
+   * The EntityInstance at its primary key is taken to be the right one. Every key of the EntityDefinitions is looked
+   * at, and compared to the keys that the EntityInstance it belongs to should be stored at. Keys of EntityDefinitions
+   * that are not in the {@link DbConfig}, are not looked at.
+   *
+   * Repairing does not guard against concurrent modifications, so it is best done while nothing else writes to the db.
+   * @param entityDefinitionId The id of the EntityDefinition to verify. If undefined, all EntityDefinitions are verified.
+   * @param options Whether to repair, and in how large batches.
+   * @returns the issues found, which are repaired, except for conflicts, if {@link VerifyOptions#repair} is true.
+   */
+  async verify<T extends Ts>(
+    entityDefinitionId?: ExtractEntityDefinitionId<T>,
+    options: VerifyOptions = {},
+  ): Promise<IntegrityIssue[]> {
+    const entityDefinitionIds = isDefined(entityDefinitionId)
+      ? [entityDefinitionId]
+      : Object.keys(this.config.entityDefinitions) as ExtractEntityDefinitionId<
+        T
+      >[];
+    const batchSize: number = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const issues: IntegrityIssue[] = [];
+    await this._doWithConnection(VOID, async (connection: Deno.Kv) => {
+      for (const id of entityDefinitionIds) {
+        const repairs: Map<IntegrityIssue, unknown> = await this._verify(
+          connection,
+          id,
+          batchSize,
+        );
+        issues.push(...repairs.keys());
+        if (options.repair) {
+          await this.repair(connection, repairs, batchSize);
+        }
+      }
+    });
+    return issues;
+  }
+
+  private async _getSchemaChanges(
+    connection: Deno.Kv,
+  ): Promise<SchemaChange[]> {
+    const entityDefinitionIds = Object.keys(
+      this.config.entityDefinitions,
+    ) as ExtractEntityDefinitionId<Ts>[];
+    const storedEntries: Deno.KvEntryMaybe<StoredEntityDefinition>[] =
+      await getManyEntries<StoredEntityDefinition>(
+        connection,
+        entityDefinitionIds.map((entityDefinitionId) =>
+          this.getSystemKey("definitions", entityDefinitionId)
+        ),
+      );
+    return entityDefinitionIds.map((entityDefinitionId, i) =>
+      getSchemaChange(
+        entityDefinitionId,
+        storedEntries[i].value ?? undefined,
+        toStoredEntityDefinition(this.getEntityDefinition(entityDefinitionId)),
+      )
+    ).filter(isDefined);
+  }
+
+  private async _reindex<T extends Ts>(
+    connection: Deno.Kv,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    stored: Maybe<StoredEntityDefinition>,
+    options: MigrateOptions,
+  ): Promise<void> {
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
+    const current: StoredEntityDefinition = toStoredEntityDefinition(
+      entityDefinition,
+    );
+    const batchSize: number = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    // for EntityInstances saved without remembering their version, that of the last migrate, or else 0
+    const defaultFromVersion: number = stored?.version ?? 0;
+
+    // the EntityInstances are found at their primary keys, as they were when last stored
+    const sourcePrimaryProperty: PropertyKey | PropertyKey[] =
+      (stored ?? current).uniqueProperties[0];
+    const sourcePrefix: Deno.KvKey = this.getNonUniqueKey(
+      entityDefinitionId,
+      getUniquePropertyKeyPart(sourcePrimaryProperty) as IndexedProperty<T>,
+    );
+    const sourceKeyLength: number = sourcePrefix.length +
+      getUniquePropertyNames(sourcePrimaryProperty).length;
+    // the counters and the search index are recomputed from scratch, as they may be missing or stale
+    const systemKeys: Deno.KvKey[] = [];
+    for (const name of ["counts", "search"] as const) {
+      for await (
+        const { key } of connection.list(
+          this.getSystemKeysSelector(name, entityDefinitionId),
+        )
+      ) {
+        systemKeys.push(key);
+      }
+    }
+    for (const keys of chunk(systemKeys, batchSize)) {
+      const atomic: Deno.AtomicOperation = connection.atomic();
+      for (const key of keys) {
+        atomic.delete(key);
+      }
+      await atomic.commit();
+    }
+
+    let migrated = 0;
+    let batch: Deno.KvKey[] = [];
+    const rewriteBatch = async (): Promise<void> => {
+      await this.commitWithRetries(
+        connection,
+        async (atomic: Deno.AtomicOperation) => {
+          const entries: Deno.KvEntryMaybe<Record<string, unknown>>[] =
+            await getManyEntries(connection, batch);
+          const expiresAts: Maybe<number>[] = await this.getExpiresAt(
+            connection,
+            entityDefinitionId,
+            batch,
+          );
+          const versions: Deno.KvEntryMaybe<number>[] = await getManyEntries<
+            number
+          >(
+            connection,
+            batch.map((key: Deno.KvKey) =>
+              this.getEntitySystemKey("versions", key)
+            ),
+          );
+          for (const [i, entry] of entries.entries()) {
+            atomic.check(entry);
+            if (entry.value === null) {
+              continue;
+            }
+            const entityInstance: T = await this.migrateEntityInstance(
+              entityDefinitionId,
+              entry.value,
+              versions[i].value ?? defaultFromVersion,
+            );
+            const primaryKey: Deno.KvKey = this.getUniqueKeys(
+              entityDefinitionId,
+              entityInstance,
+            )[0];
+            // what is remembered by primary key moves along with a changed first unique property
+            if (!isSameKvKey(entry.key, primaryKey)) {
+              atomic.delete(this.getEntitySystemKey("expiresAt", entry.key));
+              atomic.delete(this.getEntitySystemKey("versions", entry.key));
+            }
+            this.planSet(
+              atomic,
+              entityDefinitionId,
+              entityInstance,
+              expiresAts[i],
+            );
+            if (isDefined(entityDefinition.version)) {
+              atomic.set(
+                this.getEntitySystemKey("versions", primaryKey),
+                entityDefinition.version,
+                { expireIn: getRemainingExpireIn(expiresAts[i]) },
+              );
+            }
+            this.planCounters(
+              atomic,
+              entityDefinitionId,
+              undefined,
+              entityInstance,
+            );
+          }
+        },
+      );
+      migrated += batch.length;
+      batch = [];
+      options.onProgress?.({ entityDefinitionId, migrated });
+    };
+    for await (
+      const { key, value } of connection.list({ prefix: sourcePrefix })
+    ) {
+      if (key.length === sourceKeyLength && !isKvKey(value)) {
+        batch.push(key);
+      }
+      if (batch.length === batchSize) {
+        await rewriteBatch();
+      }
+    }
+    if (batch.length > 0) {
+      await rewriteBatch();
+    }
+
+    await this.deleteUnusedKeys(connection, entityDefinitionId, batchSize);
+
+    // remember the EntityDefinition, to detect changes to it later
+    await connection.set(
+      this.getSystemKey("definitions", entityDefinitionId),
+      current,
+    );
+  }
+
+  /**
+   * Pass a stored EntityInstance through the {@link EntityDefinition#migrations} for each version after the one it
+   * was stored with, and validate the result.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance.
+   * @param storedEntityInstance The EntityInstance, as it was stored.
+   * @param fromVersion The version it was stored with.
+   * @private
+   */
+  private async migrateEntityInstance<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    storedEntityInstance: Record<string, unknown>,
+    fromVersion: number,
+  ): Promise<T> {
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
+    let entityInstance: Record<string, unknown> = storedEntityInstance;
+    const toVersion: number = entityDefinition.version ?? 0;
+    for (let version = fromVersion + 1; version <= toVersion; version++) {
+      const migration: Maybe<EntityMigration<T>> = entityDefinition
+        .migrations?.[version];
+      if (isDefined(migration)) {
+        entityInstance = await migration(entityInstance);
+      }
+    }
+    const issues: ValidationIssue[] = await validateEntityInstance(
+      entityDefinition,
+      entityInstance as T,
+    );
+    if (issues.length > 0) {
+      throw new ValidationError(entityDefinitionId, issues);
+    }
+    return entityInstance as T;
+  }
+
+  /**
+   * Delete all keys of an EntityDefinition, that are not among the keys of the EntityInstance they refer to.
+   * @param connection The Deno.Kv to delete from.
+   * @param entityDefinitionId The id of the EntityDefinition to delete unused keys of.
+   * @param batchSize How many keys to look at per atomic operation.
+   * @private
+   */
+  private async deleteUnusedKeys<T extends Ts>(
+    connection: Deno.Kv,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    batchSize: number,
+  ): Promise<void> {
+    let batch: Deno.KvEntry<unknown>[] = [];
+    const deleteFromBatch = async (): Promise<void> => {
+      const owners: Maybe<Owner<T>>[] = await this.getOwners(
+        connection,
+        entityDefinitionId,
+        batch,
+      );
+      const atomic: Deno.AtomicOperation = connection.atomic();
+      for (const [i, { key }] of batch.entries()) {
+        if (!isOwnKey(owners[i], key)) {
+          atomic.delete(key);
+        }
+      }
+      const { ok } = await atomic.commit();
+      if (!ok) {
+        throw new Error("commit failed");
+      }
+      batch = [];
+    };
+    for await (
+      const entry of connection.list({
+        prefix: this.getNonUniqueKey(entityDefinitionId),
+      })
+    ) {
+      batch.push(entry);
+      if (batch.length === batchSize) {
+        await deleteFromBatch();
+      }
+    }
+    if (batch.length > 0) {
+      await deleteFromBatch();
+    }
+  }
+
+  /**
+   * For each entry, find the EntityInstance it belongs to, and calculate all the keys that EntityInstance should be
+   * stored at.
+   * @param connection The Deno.Kv to read the EntityInstances from.
+   * @param entityDefinitionId The id of the EntityDefinition of the entries.
+   * @param entries The entries to find the owners of.
+   * @returns for each entry, its owner, or undefined if it has no owner.
+   * @private
+   */
+  private async getOwners<T extends Ts>(
+    connection: Deno.Kv,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entries: Deno.KvEntry<unknown>[],
+  ): Promise<Maybe<Owner<T>>[]> {
+    const ownerKeys: Maybe<Deno.KvKey>[] = entries.map(({ value }) =>
+      this.getOwnerKey(entityDefinitionId, value)
+    );
+    const ownerEntries: Deno.KvEntryMaybe<T | Deno.KvKey>[] =
+      await getManyEntries(connection, ownerKeys.filter(isDefined));
+    return ownerKeys.map((ownerKey: Maybe<Deno.KvKey>) => {
+      if (!isDefined(ownerKey)) {
+        return undefined;
+      }
+      const owner: T | Deno.KvKey | null = ownerEntries.shift()!.value;
+      if (owner === null || isKvKey(owner)) {
+        return undefined;
+      }
+      const keys: Deno.KvKey[] = this.getAllKeys(entityDefinitionId, owner);
+      // the owner must itself be stored at the primary key it was looked up at
+      return isSameKvKey(keys[0], ownerKey)
+        ? { entityInstance: owner, keys }
+        : undefined;
+    });
+  }
+
+  /**
+   * Find the primary key of the EntityInstance that an entry value belongs to.
+   * @param entityDefinitionId The id of the EntityDefinition of the entry.
+   * @param value The value of the entry; either a reference, or a copy of the EntityInstance.
+   * @returns the primary key, or undefined if the value does not belong to any EntityInstance.
+   * @private
+   */
+  private getOwnerKey<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    value: unknown,
+  ): Maybe<Deno.KvKey> {
+    if (isKvKey(value)) {
+      return value;
+    }
+    if (typeof value !== "object" || value === null) {
+      return undefined;
+    }
+    const primaryKey: Deno.KvKey = this.getUniqueKeys(
+      entityDefinitionId,
+      value as T,
+    )[0];
+    return isKvKey(primaryKey) ? primaryKey : undefined;
+  }
+
+  /**
+   * Find the issues with the keys of an EntityDefinition.
+   * @param connection The Deno.Kv to verify.
+   * @param entityDefinitionId The id of the EntityDefinition to verify.
+   * @param batchSize How many keys to look at at a time.
+   * @returns the issues found, each with the value that would repair it, or undefined if it would be repaired by
+   * deleting its key.
+   * @private
+   */
+  private async _verify<T extends Ts>(
+    connection: Deno.Kv,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    batchSize: number,
+  ): Promise<Map<IntegrityIssue, unknown>> {
+    const repairs: Map<IntegrityIssue, unknown> = new Map();
+    const addIssue = (
+      kind: IntegrityIssueKind,
+      key: Deno.KvKey,
+      value?: unknown,
+    ): void => {
+      repairs.set({ kind, entityDefinitionId, key }, value);
+    };
+
+    let batch: Deno.KvEntry<unknown>[] = [];
+    const verifyBatch = async (): Promise<void> => {
+      const owners: Maybe<Owner<T>>[] = await this.getOwners(
+        connection,
+        entityDefinitionId,
+        batch,
+      );
+      const primaryOwners: Owner<T>[] = [];
+      for (const [i, { key, value }] of batch.entries()) {
+        const owner: Maybe<Owner<T>> = owners[i];
+        if (!isDefined(owner) || !isOwnKey(owner, key)) {
+          addIssue("orphan", key);
+          continue;
+        }
+        const expectedValue: T | Deno.KvKey = this.getValueToStore(
+          key,
+          owner.keys[0],
+          owner.entityInstance,
+        );
+        if (!isSameKvValue(value, expectedValue)) {
+          addIssue("divergent", key, expectedValue);
+        }
+        if (isSameKvKey(key, owner.keys[0])) {
+          primaryOwners.push(owner);
+        }
+      }
+
+      // find the keys that the owners at their primary keys should be stored at, but are not
+      const ownerOfKey: Owner<T>[] = primaryOwners.flatMap((owner) =>
+        owner.keys.map(() => owner)
+      );
+      const entries: Deno.KvEntryMaybe<unknown>[] = await getManyEntries(
+        connection,
+        primaryOwners.flatMap(({ keys }) => keys),
+      );
+      const otherEntries: Deno.KvEntry<unknown>[] = [];
+      const otherEntryOwners: Owner<T>[] = [];
+      for (const [i, entry] of entries.entries()) {
+        const owner: Owner<T> = ownerOfKey[i];
+        const expectedValue: T | Deno.KvKey = this.getValueToStore(
+          entry.key,
+          owner.keys[0],
+          owner.entityInstance,
+        );
+        if (entry.value === null) {
+          addIssue("missing", entry.key, expectedValue);
+          continue;
+        }
+        const entryOwnerKey: Maybe<Deno.KvKey> = this.getOwnerKey(
+          entityDefinitionId,
+          entry.value,
+        );
+        if (
+          !isDefined(entryOwnerKey) ||
+          !isSameKvKey(entryOwnerKey, owner.keys[0])
+        ) {
+          otherEntries.push(entry as Deno.KvEntry<unknown>);
+          otherEntryOwners.push(owner);
+        }
+      }
+      // a key held by another EntityInstance is only missing, if that other EntityInstance should not be stored there
+      const others: Maybe<Owner<T>>[] = await this.getOwners(
+        connection,
+        entityDefinitionId,
+        otherEntries,
+      );
+      for (const [i, { key }] of otherEntries.entries()) {
+        if (isOwnKey(others[i], key)) {
+          addIssue("conflict", key);
+        } else {
+          const owner: Owner<T> = otherEntryOwners[i];
+          addIssue(
+            "missing",
+            key,
+            this.getValueToStore(key, owner.keys[0], owner.entityInstance),
+          );
+        }
+      }
+      batch = [];
+    };
+    for await (
+      const entry of connection.list({
+        prefix: this.getNonUniqueKey(entityDefinitionId),
+      })
+    ) {
+      batch.push(entry);
+      if (batch.length === batchSize) {
+        await verifyBatch();
+      }
+    }
+    if (batch.length > 0) {
+      await verifyBatch();
+    }
+    return repairs;
+  }
+
+  /**
+   * Repair the issues found by {@link EntityDb#_verify}. Orphaned keys are deleted first, so that any key they take
+   * up can be stored at afterwards.
+   * @param connection The Deno.Kv to repair.
+   * @param repairs The issues to repair, each with the value that repairs it.
+   * @param batchSize How many keys to repair per atomic operation.
+   * @private
+   */
+  private async repair(
+    connection: Deno.Kv,
+    repairs: Map<IntegrityIssue, unknown>,
+    batchSize: number,
+  ): Promise<void> {
+    const issues: IntegrityIssue[] = [...repairs.keys()];
+    const orphans: IntegrityIssue[] = issues.filter(({ kind }) =>
+      kind === "orphan"
+    );
+    const others: IntegrityIssue[] = issues.filter(({ kind }) =>
+      kind === "missing" || kind === "divergent"
+    );
+    for (
+      const batch of [...chunk(orphans, batchSize), ...chunk(others, batchSize)]
+    ) {
+      // a repaired key expires along with the other keys of its EntityInstance
+      const expiresAts: Maybe<number>[] = [];
+      for (const issue of batch) {
+        const entityDefinitionId = issue
+          .entityDefinitionId as ExtractEntityDefinitionId<Ts>;
+        const ownerKey: Maybe<Deno.KvKey> = issue.kind === "orphan"
+          ? undefined
+          : this.getOwnerKey(entityDefinitionId, repairs.get(issue));
+        expiresAts.push(
+          isDefined(ownerKey)
+            ? (await this.getExpiresAt(connection, entityDefinitionId, [
+              ownerKey,
+            ]))[0]
+            : undefined,
+        );
+      }
+      const atomic: Deno.AtomicOperation = connection.atomic();
+      for (const [i, issue] of batch.entries()) {
+        if (issue.kind === "orphan") {
+          atomic.delete(issue.key);
+        } else {
+          atomic.set(issue.key, repairs.get(issue), {
+            expireIn: getRemainingExpireIn(expiresAts[i]),
+          });
+        }
+      }
+      const { ok } = await atomic.commit();
+      if (!ok) {
+        throw new Error("commit failed");
+      }
+    }
+  }
+
+  /**
+   * Whether an entry holds an EntityInstance at its primary key, rather than a copy of or a reference to it.
+   * @param key The key of the entry.
+   * @param value The value of the entry.
+   * @private
+   */
+  private isPrimaryEntry(key: Deno.KvKey, value: unknown): boolean {
+    const entityDefinitionId: Maybe<ExtractEntityDefinitionId<Ts>> = this
+      .getEntityDefinitionIdOfKey(key);
+    if (!isDefined(entityDefinitionId) || isKvKey(value)) {
+      return false;
+    }
+    const ownerKey: Maybe<Deno.KvKey> = this.getOwnerKey(
+      entityDefinitionId,
+      value,
+    );
+    return isDefined(ownerKey) && isSameKvKey(ownerKey, key);
+  }
+
+  /**
+   * Whether an EntityInstance is soft deleted. See {@link EntityDefinition#softDelete}.
+   * @param key Any key of the EntityInstance.
+   * @param value The EntityInstance.
+   * @private
+   */
+  private isSoftDeleted(key: Deno.KvKey, value: unknown): boolean {
+    const entityDefinitionId: Maybe<ExtractEntityDefinitionId<Ts>> = this
+      .getEntityDefinitionIdOfKey(key);
+    return isDefined(entityDefinitionId) &&
+      this.getEntityDefinition(entityDefinitionId).softDelete === true &&
+      (value as { deletedAt?: unknown }).deletedAt instanceof Date;
+  }
+
+  /**
+   * Find the id of the EntityDefinition that a key belongs to.
+   * @param key The key, including the prefix.
+   * @returns the id, or undefined if it is not that of any of the configured EntityDefinitions.
+   * @private
+   */
+  private getEntityDefinitionIdOfKey(
+    key: Deno.KvKey,
+  ): Maybe<ExtractEntityDefinitionId<Ts>> {
+    const keyPart: Deno.KvKeyPart = key[(this.config.prefix ?? []).length];
+    return typeof keyPart === "string" &&
+        Object.hasOwn(this.config.entityDefinitions, keyPart)
+      ? keyPart as ExtractEntityDefinitionId<Ts>
+      : undefined;
+  }
+
+  /**
+   * Find a page of EntityInstances in the db, that match the given non-unique property chain.
+   * @param entityDefinitionId The id of the entity to find, if any. If undefined, all entities will be searched.
+   * @param propertyLookupKey The non-unique property chain to find values for, if any. If undefined, all values for the given entity will be searched. Or, the name of a non-unique property, if only one property is to be searched. The last value of the chain may be a {@link PropertyRange}.
+   * @param options How many EntityInstances to find, in which order, and from where.
+   * @returns the page of EntityInstances, and a cursor to the next page, if there may be more.
+   */
+  findAll<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T> | undefined,
+    propertyLookupKey: PropertyLookup<T> | undefined,
+    options: FindAllOptions,
+  ): Promise<Page<T>>;
+  /**
+   * Find all EntityInstances in the db, that match the given non-unique property chain.
+   * @param entityDefinitionId The id of the entity to find, if any. If undefined, all entities will be searched.
+   * @param propertyLookupKey The non-unique property chain to find values for, if any. If undefined, all values for the given entity will be searched. Or, the name of a non-unique property, if only one property is to be searched. The last value of the chain may be a {@link PropertyRange}.
+   */
+  findAll<T extends Ts>(
+    entityDefinitionId?: ExtractEntityDefinitionId<T>,
+    propertyLookupKey?: PropertyLookup<T>,
+  ): Promise<T[]>;
+  async findAll<T extends Ts>(
+    entityDefinitionId?: ExtractEntityDefinitionId<T>,
+    propertyLookupKey?: PropertyLookup<T>,
+    options?: FindAllOptions,
+  ): Promise<T[] | Page<T>> {
+    const page: Page<T> = await this._findAll(
+      entityDefinitionId,
+      propertyLookupKey,
+      options,
+    );
+    return isDefined(options) ? page : page.items;
+  }
+
+  /**
+   * Find EntityInstances like {@link EntityDb#findAll} does, and explain how: which keys were listed, how many entries
+   * were read, and how long it took.
+   * @param entityDefinitionId The id of the entity to find, if any. If undefined, all entities will be searched.
+   * @param propertyLookupKey The non-unique property chain to find values for, if any. If undefined, all values for the given entity will be searched. Or, the name of a non-unique property, if only one property is to be searched. The last value of the chain may be a {@link PropertyRange}.
+   * @param options How many EntityInstances to find, in which order, and from where.
+   * @returns the explanation.
+   */
+  async explain<T extends Ts>(
+    entityDefinitionId?: ExtractEntityDefinitionId<T>,
+    propertyLookupKey?: PropertyLookup<T>,
+    options?: FindAllOptions,
+  ): Promise<Explanation> {
+    const started: number = performance.now();
+    const explanation: Explanation = {
+      selector: this.getListSelector(entityDefinitionId, propertyLookupKey),
+      chain: isDefined(entityDefinitionId)
+        ? findChain(
+          this.getEntityDefinition(entityDefinitionId),
+          propertyLookupKey,
+        ) as Maybe<PropertyKey[]>
+        : undefined,
+      fullScan: !isDefined(propertyLookupKey) ||
+        isKvKeyPart(propertyLookupKey) || propertyLookupKey.length === 0,
+      entriesRead: 0,
+      entitiesReturned: 0,
+      elapsedMs: 0,
+    };
+    const page: Page<T> = await this._findAll(
+      entityDefinitionId,
+      propertyLookupKey,
+      options,
+      explanation,
+    );
+    explanation.entitiesReturned = page.items.length;
+    explanation.elapsedMs = performance.now() - started;
+    return explanation;
+  }
+
+  /**
+   * Find a page of EntityInstances, for {@link EntityDb#findAll} and {@link EntityDb#explain}.
+   * @param entityDefinitionId The id of the entity to find, if any.
+   * @param propertyLookupKey The non-unique property chain to find values for, if any.
+   * @param options How many EntityInstances to find, in which order, and from where.
+   * @param explanation Where to count the entries read, if anywhere.
+   * @private
+   */
+  private async _findAll<T extends Ts>(
+    entityDefinitionId: Maybe<ExtractEntityDefinitionId<T>>,
+    propertyLookupKey: Maybe<PropertyLookup<T>>,
+    options: Maybe<FindAllOptions>,
+    explanation?: Explanation,
+  ): Promise<Page<T>> {
+    const selector: Deno.KvListSelector = this.getListSelector(
+      entityDefinitionId,
+      propertyLookupKey,
+    );
+    const isListedKey = this.getKeyFilter(
+      entityDefinitionId,
+      propertyLookupKey,
+    );
+    return await this._doWithConnection(
+      {} as Page<T>,
+      async (connection: Deno.Kv) => {
+        const limit: Maybe<number> = options?.limit;
+        // read past the limit, until one more key is listed, to know whether there is a next page
+        const iterator: Deno.KvListIterator<T | Deno.KvKey> = connection.list<
+          T | Deno.KvKey
+        >(selector, {
+          reverse: options?.reverse,
+          cursor: options?.cursor,
+        });
+        const entries: Deno.KvEntry<T | Deno.KvKey>[] = [];
+        let cursorAtLimit: Maybe<string>;
+        let nextCursor: Maybe<string>;
+        for await (const entry of iterator) {
+          countEntriesRead(explanation, [entry]);
+          if (!isListedKey(entry.key)) {
+            continue;
+          }
+          if (entries.length === limit) {
+            nextCursor = cursorAtLimit;
+            break;
+          }
+          entries.push(entry);
+          if (entries.length === limit) {
+            cursorAtLimit = iterator.cursor;
+          }
+        }
+        return {
+          items: await this.loadRelations(
+            connection,
+            entityDefinitionId,
+            await this.resolveValues(
+              connection,
+              entries,
+              options?.includeDeleted,
+            ),
+            options?.include,
+          ),
+          cursor: nextCursor,
+        };
+      },
+    );
+  }
+
+  /**
+   * Iterate over all EntityInstances in the db, that match the given non-unique property chain.
+   *
+   * The EntityInstances are read lazily, so any number of them can be processed with constant memory. A connection to
+   * the db is kept open until the iteration is done, or stopped.
+   * @param entityDefinitionId The id of the entity to find, if any. If undefined, all entities will be searched.
+   * @param propertyLookupKey The non-unique property chain to find values for, if any. If undefined, all values for the given entity will be searched. Or, the name of a non-unique property, if only one property is to be searched. The last value of the chain may be a {@link PropertyRange}.
+   * @param options How many EntityInstances to iterate over, in which order, and from where.
+   */
+  async *iterate<T extends Ts>(
+    entityDefinitionId?: ExtractEntityDefinitionId<T>,
+    propertyLookupKey?: PropertyLookup<T>,
+    options: FindAllOptions = {},
+  ): AsyncIterableIterator<T> {
+    const selector: Deno.KvListSelector = this.getListSelector(
+      entityDefinitionId,
+      propertyLookupKey,
+    );
+    const isListedKey = this.getKeyFilter(
+      entityDefinitionId,
+      propertyLookupKey,
+    );
+    const connection: Deno.Kv = await this.acquireConnection();
+    try {
+      // the limit is of the listed keys, not of all keys read
+      const iterator: Deno.KvListIterator<T | Deno.KvKey> = connection.list<
+        T | Deno.KvKey
+      >(selector, { ...options, limit: undefined });
+
+      // resolve references in batches, as large as getMany allows
+      let batch: Deno.KvEntry<T | Deno.KvKey>[] = [];
+      let listed = 0;
+      for await (const entry of iterator) {
+        if (!isListedKey(entry.key)) {
+          continue;
+        }
+        if (listed++ === options.limit) {
+          break;
+        }
+        batch.push(entry);
+        if (batch.length === MAX_GET_MANY_KEYS) {
+          yield* await this.resolveBatch(
+            connection,
+            entityDefinitionId,
+            batch,
+            options,
+          );
+          batch = [];
+        }
+      }
+      yield* await this.resolveBatch(
+        connection,
+        entityDefinitionId,
+        batch,
+        options,
+      );
+    } finally {
+      this.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * Count the EntityInstances in the db that match the given non-unique property chain, without keeping them in
+   * memory. With {@link EntityDefinition#counters}, it reads one counter instead, if the lookup has values for the
+   * first properties of a chain.
+   * @param entityDefinitionId The id of the EntityDefinition to count.
+   * @param propertyLookupKey The non-unique property chain to count values for, if any. If undefined, all EntityInstances of the EntityDefinition are counted. The last value of the chain may be a {@link PropertyRange}.
+   * @param options Whether to count soft deleted EntityInstances.
+   * @returns how many EntityInstances match.
+   */
+  async count<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    propertyLookupKey?: PropertyLookup<T>,
+    options: CountOptions = {},
+  ): Promise<number> {
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
+    const connection: Deno.Kv = await this.acquireConnection();
+    try {
+      const counterKey: Maybe<Deno.KvKey> = this.getCounterKey(
+        entityDefinitionId,
+        propertyLookupKey,
+        options,
+      );
+      if (isDefined(counterKey)) {
+        const counter: Deno.KvEntryMaybe<Deno.KvU64> = await connection.get<
+          Deno.KvU64
+        >(counterKey);
+        return Number(counter.value?.value ?? 0n);
+      }
+
+      // each EntityInstance is stored once at its first unique property
+      const lookup: PropertyLookup<T> = propertyLookupKey ??
+        this.getPrimaryLookup(entityDefinitionId);
+      const selector: Deno.KvListSelector = this.getListSelector(
+        entityDefinitionId,
+        lookup,
+      );
+      const isListedKey = this.getKeyFilter(entityDefinitionId, lookup);
+      // the entries only need to be resolved, to leave out soft deleted EntityInstances
+      const resolve: boolean = entityDefinition.softDelete === true &&
+        !options.includeDeleted;
+      let count = 0;
+      let batch: Deno.KvEntry<T | Deno.KvKey>[] = [];
+      const countBatch = async (): Promise<void> => {
+        count += resolve
+          ? (await this.resolveValues(connection, batch)).length
+          : batch.length;
+        batch = [];
+      };
+      for await (
+        const entry of connection.list<T | Deno.KvKey>(selector, {
+          batchSize: MAX_GET_MANY_KEYS,
+        })
+      ) {
+        if (!isListedKey(entry.key)) {
+          continue;
+        }
+        batch.push(entry);
+        if (batch.length === MAX_GET_MANY_KEYS) {
+          await countBatch();
+        }
+      }
+      await countBatch();
+      return count;
+    } finally {
+      this.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * Calculate the sum, smallest, largest and average value of a numeric property, of the EntityInstances in the db
+   * that match the given non-unique property chain. They are read lazily, like {@link EntityDb#iterate}.
+   * @param entityDefinitionId The id of the EntityDefinition to aggregate.
+   * @param property The numeric property to aggregate.
+   * @param propertyLookupKey The non-unique property chain to aggregate values for, if any. If undefined, all EntityInstances of the EntityDefinition are aggregated. The last value of the chain may be a {@link PropertyRange}.
+   * @param options Whether to include soft deleted EntityInstances.
+   * @returns the aggregates.
+   */
+  async aggregate<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    property: keyof T,
+    propertyLookupKey?: PropertyLookup<T>,
+    options: CountOptions = {},
+  ): Promise<Aggregates> {
+    const aggregates: Aggregates = { count: 0, sum: 0 };
+    const entityInstances: AsyncIterableIterator<T> = this.iterate(
+      entityDefinitionId,
+      propertyLookupKey ?? this.getPrimaryLookup(entityDefinitionId),
+      { includeDeleted: options.includeDeleted },
+    );
+    for await (const entityInstance of entityInstances) {
+      const value: unknown = entityInstance[property];
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        continue;
+      }
+      aggregates.count++;
+      aggregates.sum += value;
+      aggregates.min = Math.min(aggregates.min ?? value, value);
+      aggregates.max = Math.max(aggregates.max ?? value, value);
+    }
+    if (aggregates.count > 0) {
+      aggregates.avg = aggregates.sum / aggregates.count;
+    }
+    return aggregates;
+  }
+
+  /**
+   * Find the key of the {@link EntityDefinition#counters} that counts the EntityInstances matching a lookup.
+   * @param entityDefinitionId The id of the EntityDefinition to count.
+   * @param propertyLookupKey The non-unique property chain to count values for, if any.
+   * @param options Whether to count soft deleted EntityInstances, which no counter does.
+   * @returns the key, or undefined if there is no such counter.
+   * @private
+   */
+  private getCounterKey<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    propertyLookupKey: Maybe<PropertyLookup<T>>,
+    options: CountOptions,
+  ): Maybe<Deno.KvKey> {
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
+    if (!entityDefinition.counters || options.includeDeleted) {
+      return undefined;
+    }
+    if (!isDefined(propertyLookupKey)) {
+      return this.getSystemKey("counts", entityDefinitionId);
+    }
+    if (
+      isKvKeyPart(propertyLookupKey) || propertyLookupKey.length === 0 ||
+      !propertyLookupKey.every(([, value]) => isKvKeyPart(value)) ||
+      !isDefined(findChain(entityDefinition, propertyLookupKey))
+    ) {
+      return undefined;
+    }
+    return this.getSystemKey(
+      "counts",
+      entityDefinitionId,
+      ...propertyLookupKey.flat() as Deno.KvKeyPart[],
+    );
+  }
+
+  /**
+   * Resolve a batch of listed entries for {@link EntityDb#iterate}, and load the relations to include.
+   * @param connection The Deno.Kv to read from.
+   * @param entityDefinitionId The id of the EntityDefinition iterated over, if any.
+   * @param batch The listed entries.
+   * @param options The options of the iteration.
+   * @private
+   */
+  private async resolveBatch<T extends Ts>(
+    connection: Deno.Kv,
+    entityDefinitionId: Maybe<ExtractEntityDefinitionId<T>>,
+    batch: Deno.KvEntry<T | Deno.KvKey>[],
+    options: FindAllOptions,
+  ): Promise<T[]> {
+    return await this.loadRelations(
+      connection,
+      entityDefinitionId,
+      await this.resolveValues(connection, batch, options.includeDeleted),
+      options.include,
+    );
+  }
+
+  /**
+   * Search the {@link EntityDefinition#searchableProperties} of the EntityInstances of an EntityDefinition. The text
+   * is split into words like the indexed values, and EntityInstances with any of them are found, best match first.
+   *
+   * Each word of the text adds to the score of an EntityInstance how often it occurs in it, twice as much for the
+   * whole word as for a word that starts with it. EntityInstances with the same score are in the order of the index.
+   * All matches are scored before any EntityInstance is read, so short words that start many others take longer.
+   * @param entityDefinitionId The id of the EntityDefinition to search.
+   * @param text The text to search for.
+   * @param options Whether to match the start of words, how many EntityInstances to find at most, and whether to include soft deleted ones.
+   * @returns the matching EntityInstances, best match first.
+   * @throws Error if the EntityDefinition has no searchable properties.
+   */
+  async search<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    text: string,
+    options: SearchOptions = {},
+  ): Promise<T[]> {
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
+    if (!entityDefinition.searchableProperties?.length) {
+      throw new Error(`${entityDefinitionId} has no searchable properties`);
+    }
+    const connection: Deno.Kv = await this.acquireConnection();
+    try {
+      // the score of each matching EntityInstance, by the id of its primary key
+      const scores: Map<string, { primaryKey: Deno.KvKey; score: number }> =
+        new Map();
+      for (const token of new Set(tokenize(text))) {
+        const prefix: Deno.KvKey = this.getSystemKey(
+          "search",
+          entityDefinitionId,
+          token,
+        );
+        const selector: Deno.KvListSelector = options.prefix ?? true
+          ? {
+            start: prefix,
+            end: this.getSystemKey(
+              "search",
+              entityDefinitionId,
+              getTokenPrefixEnd(token),
+            ),
+          }
+          : { prefix };
+        // where several indexed words start with the token, only the best scores
+        const best: Map<string, { primaryKey: Deno.KvKey; score: number }> =
+          new Map();
+        for await (const { key, value } of connection.list<number>(selector)) {
+          // the key ends with the indexed word, and the values that identify the EntityInstance
+          const [indexedToken, ...primaryKeyParts] = key.slice(
+            prefix.length - 1,
+          );
+          const score: number = value * (indexedToken === token ? 2 : 1);
+          const id: string = getKvKeyId(primaryKeyParts);
+          if (score > (best.get(id)?.score ?? 0)) {
+            best.set(id, {
+              primaryKey: this.getNonUniqueKey(
+                entityDefinitionId,
+                this.getPrimaryLookup(entityDefinitionId) as IndexedProperty<
+                  T
+                >,
+                primaryKeyParts,
+              ),
+              score,
+            });
+          }
+        }
+        for (const [id, { primaryKey, score }] of best) {
+          scores.set(id, {
+            primaryKey,
+            score: (scores.get(id)?.score ?? 0) + score,
+          });
+        }
+      }
+
+      const ranked: Deno.KvKey[] = [...scores.values()]
+        .sort((a, b) => b.score - a.score)
+        .map(({ primaryKey }) => primaryKey);
+      const found: T[] = [];
+      for (const primaryKeys of chunk(ranked, MAX_GET_MANY_KEYS)) {
+        const entries: Deno.KvEntryMaybe<T>[] = await getManyEntries<T>(
+          connection,
+          primaryKeys,
+        );
+        for (const { key, value } of entries) {
+          // an expired EntityInstance may not be deleted yet at all its keys
+          if (
+            value === null ||
+            (!options.includeDeleted && this.isSoftDeleted(key, value))
+          ) {
+            continue;
+          }
+          found.push(value);
+          if (found.length === options.limit) {
+            return found;
+          }
+        }
+      }
+      return found;
+    } finally {
+      this.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * Start a query for EntityInstances of an EntityDefinition, that picks an index by itself. See {@link Query}.
+   * @param entityDefinitionId The id of the EntityDefinition to query.
+   * @param options What to do if no index matches the query.
+   * @returns the query, to add conditions to.
+   */
+  query<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    options: QueryOptions = {},
+  ): Query<T> {
+    return new Query<T>(
+      (spec: QuerySpec<T>) => this.runQuery(entityDefinitionId, spec, options),
+      async (spec: QuerySpec<T>) => {
+        const started: number = performance.now();
+        const explanation: Explanation = {
+          fullScan: false,
+          entriesRead: 0,
+          entitiesReturned: 0,
+          elapsedMs: 0,
+        };
+        for await (
+          const _ of this.runQuery(
+            entityDefinitionId,
+            spec,
+            options,
+            explanation,
+          )
+        ) {
+          explanation.entitiesReturned++;
+        }
+        explanation.elapsedMs = performance.now() - started;
+        return explanation;
+      },
+    );
+  }
+
+  /**
+   * Find the EntityInstances of a {@link Query}, as planned by {@link planQuery}.
+   * @param entityDefinitionId The id of the EntityDefinition to query.
+   * @param spec What the query asks for.
+   * @param options What to do if no index matches the query.
+   * @param explanation Where to explain how the query is run, if anywhere.
+   * @private
+   */
+  private async *runQuery<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    spec: QuerySpec<T>,
+    options: QueryOptions,
+    explanation?: Explanation,
+  ): AsyncIterableIterator<T> {
+    const plan: QueryPlan<T> = planQuery(
+      this.getEntityDefinition(entityDefinitionId),
+      spec.conditions,
+      spec.order,
+    );
+    if (isDefined(explanation)) {
+      if (plan.kind === "unique") {
+        explanation.key = this.getUniqueKey(
+          entityDefinitionId,
+          plan.property,
+          plan.value as T[keyof T],
+        );
+      } else {
+        explanation.selector = this.getListSelector(
+          entityDefinitionId,
+          plan.lookup,
+        );
+        explanation.chain = plan.chain as Maybe<PropertyKey[]>;
+        explanation.fullScan = plan.fullScan;
+      }
+    }
+    if (plan.kind === "list" && plan.fullScan) {
+      const properties: PropertyKey[] = spec.conditions.map((
+        { property },
+      ) => property as PropertyKey);
+      if (options.refuseFullScan) {
+        throw new FullScanError(entityDefinitionId, properties);
+      }
+      options.onFullScan?.(entityDefinitionId, properties);
+    }
+    if (spec.limit === 0) {
+      return;
+    }
+
+    const connection: Deno.Kv = await this.acquireConnection();
+    try {
+      if (plan.kind === "unique") {
+        const key: Deno.KvKey = this.getUniqueKey(
+          entityDefinitionId,
+          plan.property,
+          plan.value as T[keyof T],
+        );
+        const entry: Maybe<Deno.KvEntry<T>> = await this.readEntry(
+          connection,
+          key,
+        );
+        if (isDefined(explanation)) {
+          // a resolved reference is at another key
+          explanation.entriesRead +=
+            isDefined(entry) && !isSameKvKey(entry.key, key) ? 2 : 1;
+        }
+        if (
+          isDefined(entry) && !this.isSoftDeleted(entry.key, entry.value) &&
+          matchesConditions(entry.value, spec.conditions)
+        ) {
+          yield entry.value;
+        }
+        return;
+      }
+
+      const matching: AsyncIterableIterator<T> = this.listMatching(
+        connection,
+        entityDefinitionId,
+        plan.lookup,
+        spec,
+        explanation,
+      );
+      if (!plan.ordered) {
+        const all: T[] = sortByOrder(await asArray(matching), spec.order!);
+        yield* all.slice(0, spec.limit);
+        return;
+      }
+      let found = 0;
+      for await (const entityInstance of matching) {
+        yield entityInstance;
+        if (++found === spec.limit) {
+          return;
+        }
+      }
+    } finally {
+      this.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * List the EntityInstances at the keys of a lookup, that meet the conditions of a query. Each is listed once, even
+   * if several chains start with the properties of the lookup, see {@link EntityDb#getKeyFilter}.
+   * @param connection The Deno.Kv to read from.
+   * @param entityDefinitionId The id of the EntityDefinition to list.
+   * @param lookup What to list.
+   * @param spec What the query asks for.
+   * @param explanation Where to count the entries read, if anywhere.
+   * @private
+   */
+  private async *listMatching<T extends Ts>(
+    connection: Deno.Kv,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    lookup: PropertyLookup<T>,
+    spec: QuerySpec<T>,
+    explanation?: Explanation,
+  ): AsyncIterableIterator<T> {
+    const iterator: Deno.KvListIterator<T | Deno.KvKey> = connection.list<
+      T | Deno.KvKey
+    >(this.getListSelector(entityDefinitionId, lookup), {
+      reverse: spec.order?.direction === "desc",
+      batchSize: MAX_GET_MANY_KEYS,
+    });
+    const isListedKey = this.getKeyFilter(entityDefinitionId, lookup);
+    let batch: Deno.KvEntry<T | Deno.KvKey>[] = [];
+    const matching = async (): Promise<T[]> => {
+      const entityInstances: T[] = await this.resolveValues(connection, batch);
+      batch = [];
+      return entityInstances.filter((entityInstance: T) =>
+        matchesConditions(entityInstance, spec.conditions)
+      );
+    };
+    for await (const entry of iterator) {
+      countEntriesRead(explanation, [entry]);
+      if (!isListedKey(entry.key)) {
+        continue;
+      }
+      batch.push(entry);
+      if (batch.length === MAX_GET_MANY_KEYS) {
+        yield* await matching();
+      }
+    }
+    yield* await matching();
+  }
+
+  /**
+   * Watch an EntityInstance in the db for changes.
+   *
+   * The stream emits the EntityInstance right away, and again whenever it is saved or deleted. A connection to the db
+   * is kept open until the stream is cancelled.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance to watch.
+   * @param uniquePropertyName The unique property, or tuple of unique properties, to find the EntityInstance by.
+   * @param uniquePropertyValue The unique property value, or the values of the tuple, to find the EntityInstance by.
+   * @returns a stream of the EntityInstance, or undefined while there is none at the given key.
+   */
+  watch<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+  ): ReadableStream<Maybe<T>> {
+    return this.createWatchStream(
+      [[entityDefinitionId, uniquePropertyName, uniquePropertyValue]],
+      (values: Maybe<T>[]) => values[0],
+    );
+  }
+
+  /**
+   * Watch several EntityInstances in the db for changes, like {@link EntityDb#watch}.
+   *
+   * The stream emits all the EntityInstances right away, and again whenever any of them is saved or deleted.
+   * @param lookups Where to find each EntityInstance to watch.
+   * @returns a stream of the EntityInstances, in the same order as the lookups, with undefined for any not found.
+   */
+  watchMany<T extends Ts>(
+    lookups: UniqueLookup<T>[],
+  ): ReadableStream<Maybe<T>[]> {
+    return this.createWatchStream(lookups, (values: Maybe<T>[]) => values);
+  }
+
+  /**
+   * Create a stream that watches the keys of EntityInstances, in as few calls to Deno.Kv#watch as it allows.
+   * @param lookups Where to find each EntityInstance to watch.
+   * @param select What to emit, given the EntityInstances found.
+   * @private
+   */
+  private createWatchStream<T extends Ts, R>(
+    lookups: UniqueLookup<T>[],
+    select: (values: Maybe<T>[]) => R,
+  ): ReadableStream<R> {
+    const keys: Deno.KvKey[] = lookups.map((
+      [entityDefinitionId, name, value],
+    ) => this.getUniqueKey(entityDefinitionId, name, value));
+    let connection: Maybe<Deno.Kv>;
+    let readers: ReadableStreamDefaultReader<Deno.KvEntryMaybe<unknown>[]>[] =
+      [];
+    let cancelled = false;
+    const release = (): void => {
+      if (isDefined(connection)) {
+        this.releaseConnection(connection);
+        connection = undefined;
+      }
+    };
+
+    return new ReadableStream<R>({
+      start: async (controller: ReadableStreamDefaultController<R>) => {
+        const kv: Deno.Kv = connection = await this.acquireConnection();
+        if (cancelled) {
+          release();
+          return;
+        }
+        readers = chunk(keys, MAX_WATCH_KEYS).map((keysChunk) =>
+          kv.watch(keysChunk).getReader()
+        );
+        // the latest entries of each chunk, emitted once every chunk has reported
+        const entries: Deno.KvEntryMaybe<T | Deno.KvKey>[][] = [];
+        const emit = async (): Promise<void> => {
+          const values: Maybe<T>[] = await this.resolveMaybeValues(
+            kv,
+            entries.flat(),
+          );
+          if (!cancelled) {
+            controller.enqueue(select(values));
+          }
+        };
+        const readChunk = async (
+          reader: ReadableStreamDefaultReader<Deno.KvEntryMaybe<unknown>[]>,
+          i: number,
+        ): Promise<void> => {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done || cancelled) {
+              return;
+            }
+            entries[i] = value as Deno.KvEntryMaybe<T | Deno.KvKey>[];
+            if (Object.keys(entries).length === readers.length) {
+              await emit();
+            }
+          }
+        };
+        Promise.all(readers.map(readChunk)).then(
+          () => {
+            release();
+            if (!cancelled) {
+              controller.close();
+            }
+          },
+          (error: unknown) => {
+            release();
+            if (!cancelled) {
+              controller.error(error);
+            }
+          },
+        );
+      },
+      cancel: async () => {
+        cancelled = true;
+        await Promise.all(readers.map((reader) => reader.cancel()));
+        release();
+      },
+    });
+  }
+
+  async _doWithConnection<
+    T extends
+      | void
+      | undefined
+      | Ts
+      | Ts[]
+      | Maybe<Versioned<Ts>>
+      | Page<Ts>,
+  >(
+    _expectedReturnType: T,
+    fn: DbConnectionCallback<T>,
+  ): Promise<T> {
+    const connection: Deno.Kv = await this.acquireConnection();
+    try {
+      return await fn(connection);
+    } finally {
+      this.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * Get the shared connection, or open a new one if there is none.
+   * @private
+   */
+  private async acquireConnection(): Promise<Deno.Kv> {
+    if (this.closed) {
+      throw new Error("EntityDb is closed.");
+    }
+    return this.connection ?? await Deno.openKv(this.config.dbFilePath);
+  }
+
+  /**
+   * Close a connection from {@link EntityDb#acquireConnection}, unless it is the shared connection.
+   * @param connection The connection to release.
+   * @private
+   */
+  private releaseConnection(connection: Deno.Kv): void {
+    if (connection !== this.connection) {
+      connection.close();
+    }
+  }
+
+  /**
+   * Calculate all the keys that an EntityInstance is stored at. The first one is its primary key.
+   * @param entityDefinitionId The id of the EntityDefinition to calculate the keys for.
+   * @param entityInstance The EntityInstance to calculate the keys for.
+   * @private
+   */
+  private getAllKeys<
+    T extends Ts,
+  >(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+  ): Deno.KvKey[] {
+    return [
+      ...this.getUniqueKeys(entityDefinitionId, entityInstance),
+      ...this.getNonUniqueKeys(entityDefinitionId, entityInstance),
+    ];
+  }
+
+  /**
+   * Calculate a key for this EntityDb's own bookkeeping, such as stored EntityDefinitions. These keys are kept apart
+   * from all EntityInstances.
+   * @param keyParts The rest of the key.
+   * @private
+   */
+  private getSystemKey(...keyParts: Deno.KvKeyPart[]): Deno.KvKey {
+    return [...(this.config.prefix ?? []), SYSTEM_KEY_PART, ...keyParts];
+  }
+
+  /**
+   * Get the hooks to call for EntityInstances of an EntityDefinition: those of the DbConfig, then those of the
+   * EntityDefinition.
+   * @param entityDefinitionId The id of the EntityDefinition.
+   * @private
+   */
+  private getHooks<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+  ): Maybe<EntityHooks<T>>[] {
+    return [
+      this.config.hooks as Maybe<EntityHooks<T>>,
+      this.getEntityDefinition(entityDefinitionId).hooks,
+    ];
+  }
+
+  /**
+   * Look up the EntityDefinition for an EntityDefinition.id.
+   * @param entityDefinitionId The id of the EntityDefinition to look up.
+   * @private
+   */
+  private getEntityDefinition<
+    T extends Ts,
+  >(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+  ): EntityDefinition<T> {
+    return this.config
+      .entityDefinitions[entityDefinitionId] as unknown as EntityDefinition<T>;
+  }
+
+  /**
+   * Get the values of an EntityInstance's first unique property, which identify it, and end each of its non-unique
+   * keys. That is one value, or those of a tuple of properties.
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance.
+   * @param entityInstance The EntityInstance to get the values from.
+   * @private
+   */
+  private getPrimaryKeyParts<
+    T extends Ts,
+  >(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+  ): Deno.KvKeyPart[] {
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
+    return getUniquePropertyNames(entityDefinition.uniqueProperties[0]).map((
+      property: keyof T,
+    ) => entityInstance[property] as Deno.KvKeyPart);
+  }
+
+  /**
+   * Get the lookup that lists each EntityInstance of an EntityDefinition once, at the primary key for its first unique
+   * property.
+   * @param entityDefinitionId The id of the EntityDefinition to list.
+   * @private
+   */
+  private getPrimaryLookup<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+  ): PropertyLookup<T> {
+    return getUniquePropertyKeyPart(
+      this.getEntityDefinition(entityDefinitionId).uniqueProperties[0],
+    ) as PropertyLookup<T>;
+  }
+
+  /**
+   * Calculate all the unique keys that an EntityInstance is stored at.
+   * @param entityDefinitionId The id of the EntityDefinition to calculate the keys for.
+   * @param entityInstance The EntityInstance to calculate the keys for.
+   * @private
+   */
+  private getUniqueKeys<
+    T extends Ts,
+  >(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+  ): Deno.KvKey[] {
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
+    return entityDefinition.uniqueProperties.map((
+      uniqueProperty: UniqueProperty<T>,
+    ) =>
+      this.getUniqueKey(
+        entityDefinitionId,
+        uniqueProperty,
+        Array.isArray(uniqueProperty)
+          ? uniqueProperty.map((property: keyof T) => entityInstance[property])
+          : entityInstance[uniqueProperty],
+      )
+    );
+  }
+
+  /**
+   * Calculate the unique key that an EntityInstance is stored at.
+   * @param entityDefinitionId The id of the entity to calculate the key for.
+   * @param uniquePropertyName The unique property, or tuple of properties, to calculate the key for.
+   * @param uniquePropertyValue The unique property value, or the values of the tuple, to calculate the key for.
+   * @throws Error if a tuple is not given one value for each of its properties.
+   * @private
+   */
+  private getUniqueKey<
+    T extends Ts,
+  >(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+  ): Deno.KvKey {
+    if (
+      Array.isArray(uniquePropertyName) &&
+      (!Array.isArray(uniquePropertyValue) ||
+        uniquePropertyValue.length !== uniquePropertyName.length)
+    ) {
+      throw new Error(
+        `Expected ${uniquePropertyName.length} values for ${
+          String(getUniquePropertyKeyPart(uniquePropertyName))
+        }.`,
+      );
+    }
+    return [
       ...(this.config.prefix ?? []),
       entityDefinitionId,
-      uniquePropertyName,
-      uniquePropertyValue,
+      getUniquePropertyKeyPart(uniquePropertyName),
+      ...(Array.isArray(uniquePropertyName)
+        ? uniquePropertyValue as Array<T[keyof T]>
+        : [uniquePropertyValue]),
     ] as Deno.KvKey;
   }
 
@@ -340,15 +3525,23 @@ export class EntityDb<Ts extends EntityInstance<Ts>> {
     entityDefinitionId: ExtractEntityDefinitionId<T>,
     entityInstance: T,
   ): Deno.KvKey[] {
-    const entityDefinition: EntityDefinition<T> = this.config
-      .entityDefinitions[entityDefinitionId] as unknown as EntityDefinition<T>;
-    const uniqueProperty: keyof T = entityDefinition.uniqueProperties[0];
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
     const indexedPropertyChains: Array<Array<keyof T>> =
       entityDefinition.indexedPropertyChains;
 
     const result: Deno.KvKey[] = [];
 
     for (const indexedPropertyChain of indexedPropertyChains) {
+      if (
+        indexedPropertyChain.some((indexedProperty: keyof T) =>
+          entityInstance[indexedProperty] === null
+        )
+      ) {
+        // sparse: EntityInstances without a value for the chain are not indexed by it
+        continue;
+      }
       const propertyLookupPairs = indexedPropertyChain.map((
         indexedProperty: keyof T,
       ) =>
@@ -360,18 +3553,154 @@ export class EntityDb<Ts extends EntityInstance<Ts>> {
       const nonUniqueKey: Deno.KvKey = this.getNonUniqueKey(
         entityDefinitionId,
         propertyLookupPairs,
-        entityInstance[uniqueProperty] as Deno.KvKeyPart,
+        this.getPrimaryKeyParts(entityDefinitionId, entityInstance),
       );
       result.push(nonUniqueKey);
     }
     return result;
   }
 
+  /**
+   * Calculate which keys to list, to find the EntityInstances matching a property lookup.
+   *
+   * If the last value of the lookup is a {@link PropertyRange}, its bounds are mapped onto the start and end of the
+   * selector.
+   * @param entityDefinitionId The id of the entity to list, if any. If not provided, all entities are targeted.
+   * @param propertyLookup The property lookup to list keys for, if any.
+   * @private
+   */
+  private getListSelector<T extends Ts>(
+    entityDefinitionId?: ExtractEntityDefinitionId<T>,
+    propertyLookup?: PropertyLookup<T>,
+  ): Deno.KvListSelector {
+    if (!isDefined(entityDefinitionId)) {
+      // all entities, but not the system keys, which sort before any EntityDefinitionId
+      const prefix: Deno.KvKey = this.getNonUniqueKey();
+      return { prefix, start: [...prefix, ""] };
+    }
+    if (!isPropertyRangeLookup(propertyLookup)) {
+      return {
+        prefix: this.getNonUniqueKey(entityDefinitionId, propertyLookup),
+      };
+    }
+    const propertyLookupPairs = propertyLookup.slice(
+      0,
+      -1,
+    ) as PropertyLookupPair<T>[];
+    const [indexedProperty, range] = propertyLookup.at(
+      -1,
+    ) as PropertyRangePair<T>;
+    if (
+      (isDefined(range.gt) && isDefined(range.gte)) ||
+      (isDefined(range.lt) && isDefined(range.lte))
+    ) {
+      throw new Error(
+        "A PropertyRange may have only one of gt and gte, and only one of lt and lte.",
+      );
+    }
+    const prefix: Deno.KvKey = this.getNonUniqueKey(entityDefinitionId, [
+      ...propertyLookupPairs,
+      indexedProperty,
+    ]);
+
+    // keys for a value v are [...prefix, v, ...], which all sort after [...prefix, v], but before [...prefix, next(v)]
+    const startPart: Maybe<Deno.KvKeyPart> = isDefined(range.gt)
+      ? nextKvKeyPart(range.gt as Deno.KvKeyPart)
+      : range.gte as Maybe<Deno.KvKeyPart>;
+    const endPart: Maybe<Deno.KvKeyPart> = isDefined(range.lte)
+      ? nextKvKeyPart(range.lte as Deno.KvKeyPart)
+      : range.lt as Maybe<Deno.KvKeyPart>;
+    if (isDefined(range.gt) && !isDefined(startPart)) {
+      // nothing is greater than range.gt
+      return { start: prefix, end: prefix };
+    }
+    if (isDefined(startPart) && isDefined(endPart)) {
+      return { start: [...prefix, startPart], end: [...prefix, endPart] };
+    }
+    if (isDefined(startPart)) {
+      return { prefix, start: [...prefix, startPart] };
+    }
+    if (isDefined(endPart)) {
+      return { prefix, end: [...prefix, endPart] };
+    }
+    return { prefix };
+  }
+
+  /**
+   * Create a test for the keys listed for a lookup, that passes the keys of one index only: those of the first unique
+   * property named by the lookup, or else those of the chain of {@link findChain}. Chains that start with the same
+   * properties share the keys of a lookup, so each EntityInstance would be listed once for each of them otherwise.
+   * @param entityDefinitionId The id of the EntityDefinition listed, if any. If not provided, all keys pass.
+   * @param propertyLookup The lookup listed, if any. If not provided, all keys pass.
+   * @private
+   */
+  private getKeyFilter<T extends Ts>(
+    entityDefinitionId?: ExtractEntityDefinitionId<T>,
+    propertyLookup?: PropertyLookup<T>,
+  ): (key: Deno.KvKey) => boolean {
+    if (!isDefined(entityDefinitionId) || !isDefined(propertyLookup)) {
+      return () => true;
+    }
+    const entityDefinition: EntityDefinition<T> = this.getEntityDefinition(
+      entityDefinitionId,
+    );
+    const base: number = this.getNonUniqueKey(entityDefinitionId).length;
+    const uniqueProperty: Maybe<UniqueProperty<T>> = isKvKeyPart(
+        propertyLookup,
+      )
+      ? entityDefinition.uniqueProperties.find((
+        property: UniqueProperty<T>,
+      ) => getUniquePropertyKeyPart(property) === propertyLookup)
+      : undefined;
+    if (isDefined(uniqueProperty)) {
+      // [...prefix, entityDefinitionId, keyPart, ...values]
+      const uniqueKeyLength: number = base + 1 +
+        getUniquePropertyNames(uniqueProperty).length;
+      return (key: Deno.KvKey) => key.length === uniqueKeyLength;
+    }
+    const chain: Maybe<Array<keyof T>> = findChain(
+      entityDefinition,
+      propertyLookup,
+    );
+    if (!isDefined(chain)) {
+      return () => true;
+    }
+    // [...prefix, entityDefinitionId, property, value, ..., ...primaryKeyParts]
+    const nonUniqueKeyLength: number = base + 2 * chain.length +
+      getUniquePropertyNames(entityDefinition.uniqueProperties[0]).length;
+    return (key: Deno.KvKey) =>
+      key.length === nonUniqueKeyLength &&
+      chain.every((property: keyof T, i: number) =>
+        key[base + 2 * i] === property
+      );
+  }
+
+  /**
+   * List the entries at the keys of a lookup, of one index only, see {@link EntityDb#getKeyFilter}.
+   * @param connection The Deno.Kv to list.
+   * @param entityDefinitionId The id of the EntityDefinition to list.
+   * @param propertyLookup The lookup to list.
+   * @returns the entries, which may hold references.
+   * @private
+   */
+  private async listKeysOfLookup<T extends Ts>(
+    connection: Deno.Kv,
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    propertyLookup: PropertyLookup<T>,
+  ): Promise<Deno.KvEntry<T | Deno.KvKey>[]> {
+    const isListedKey = this.getKeyFilter(entityDefinitionId, propertyLookup);
+    return (await asArray(
+      connection.list<T | Deno.KvKey>(
+        this.getListSelector(entityDefinitionId, propertyLookup),
+      ),
+    )).filter(({ key }) => isListedKey(key));
+  }
+
   /**
    * Calculate the non-unique key that an EntityInstance is stored at.
    * @param entityDefinitionId The id of the entity to calculate the key for, if any. If not provided, all entities are targeted.
    * @param propertyLookup The indexed property chain to calculate the key for, if any. If not provided, all indexed property chains are targeted.  Or, the name of an indexed property, if only one property is to be searched.
-   * @param entityInstanceUniquePropertyValue The EntityInstance[uniqueProperties[0]] value to calculate the key for. If not provided, all EntityInstances are targeted.
+   * @param primaryKeyParts The values of the EntityInstance's first unique property to calculate the key for. If not provided, all EntityInstances are targeted.
    * @private
    */
   private getNonUniqueKey<T extends Ts>(
@@ -380,7 +3709,7 @@ export class EntityDb<Ts extends EntityInstance<Ts>> {
       | PropertyLookupPair<T>[]
       | [...PropertyLookupPair<T>[], IndexedProperty<T>]
       | IndexedProperty<T>,
-    entityInstanceUniquePropertyValue?: Deno.KvKeyPart,
+    primaryKeyParts?: Deno.KvKeyPart[],
   ): Deno.KvKeyPart[] {
     const result: Deno.KvKeyPart[] = [];
 
@@ -391,9 +3720,9 @@ export class EntityDb<Ts extends EntityInstance<Ts>> {
     if (isDefined(entityDefinitionId)) {
       result.push(entityDefinitionId);
     } else {
-      if ([propertyLookup, entityInstanceUniquePropertyValue].some(isDefined)) {
+      if ([propertyLookup, primaryKeyParts].some(isDefined)) {
         throw new Error(
-          "entityDefinitionId must be provided if propertyLookup or entityInstanceUniquePropertyValue are provided",
+          "entityDefinitionId must be provided if propertyLookup or primaryKeyParts are provided",
         );
       }
     }
@@ -405,15 +3734,15 @@ export class EntityDb<Ts extends EntityInstance<Ts>> {
         result.push(...propertyLookup.flat() as Deno.KvKeyPart[]);
       }
     } else {
-      if (isDefined(entityInstanceUniquePropertyValue)) {
+      if (isDefined(primaryKeyParts)) {
         throw new Error(
-          "propertyLookup must be provided if entityInstanceUniquePropertyValue is provided",
+          "propertyLookup must be provided if primaryKeyParts are provided",
         );
       }
     }
 
-    if (isDefined(entityInstanceUniquePropertyValue)) {
-      result.push(entityInstanceUniquePropertyValue);
+    if (isDefined(primaryKeyParts)) {
+      result.push(...primaryKeyParts);
     }
 
     return result;
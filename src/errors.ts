@@ -0,0 +1,119 @@
+import { isDefined } from "./fn.ts";
+import { EntityDefinitionId, ValidationIssue } from "./types.ts";
+
+/**
+ * Thrown when saving an EntityInstance would make one of its unique properties refer to more than one EntityInstance.
+ */
+export class UniqueConstraintViolationError extends Error {
+  /**
+   * @param entityDefinitionId The id of the EntityDefinition whose unique constraint was violated.
+   * @param uniquePropertyName The unique property, or tuple of properties, whose constraint was violated.
+   * @param uniquePropertyValue The value of the unique property, or the values of the tuple, that is already taken.
+   */
+  constructor(
+    readonly entityDefinitionId: EntityDefinitionId,
+    readonly uniquePropertyName: PropertyKey | PropertyKey[],
+    readonly uniquePropertyValue: unknown,
+  ) {
+    super(
+      `Unique constraint violated: ${entityDefinitionId} with ${
+        String(uniquePropertyName)
+      } ${String(uniquePropertyValue)} already exists.`,
+    );
+    this.name = "UniqueConstraintViolationError";
+  }
+}
+
+/**
+ * Thrown when an EntityInstance was modified by someone else, between reading it and saving it.
+ */
+export class ConcurrentModificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConcurrentModificationError";
+  }
+}
+
+/**
+ * Thrown when two operations of one {@link EntityDb#transaction} would write the same key, for example by saving the
+ * same EntityInstance twice. Each operation reads the db as it was before the transaction, so the second one would
+ * leave the first one's keys behind.
+ */
+export class TransactionConflictError extends Error {
+  /**
+   * @param key The key that was already written by another operation of the transaction.
+   */
+  constructor(readonly key: Deno.KvKey) {
+    super(
+      `Conflicting operations in one transaction: ${
+        key.map(String).join("/")
+      } was already written by another operation.`,
+    );
+    this.name = "TransactionConflictError";
+  }
+}
+
+/**
+ * Thrown when deleting an EntityInstance is refused, because it still has related EntityInstances, by a relation with
+ * `onDelete: "restrict"`.
+ */
+export class ReferentialIntegrityError extends Error {
+  /**
+   * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance that was not deleted.
+   * @param relationName The name of the relation that still has related EntityInstances.
+   */
+  constructor(
+    readonly entityDefinitionId: EntityDefinitionId,
+    readonly relationName: string,
+  ) {
+    super(
+      `Can not delete ${entityDefinitionId}, because it still has related EntityInstances in ${relationName}.`,
+    );
+    this.name = "ReferentialIntegrityError";
+  }
+}
+
+/**
+ * Thrown when a query would have to read all EntityInstances of an EntityDefinition, because no unique property or
+ * indexed property chain matches its conditions, and {@link QueryOptions#refuseFullScan} is set.
+ */
+export class FullScanError extends Error {
+  /**
+   * @param entityDefinitionId The id of the EntityDefinition that was queried.
+   * @param properties The properties of the conditions of the query.
+   */
+  constructor(
+    readonly entityDefinitionId: EntityDefinitionId,
+    readonly properties: PropertyKey[],
+  ) {
+    super(
+      `Refusing to scan all of ${entityDefinitionId}, because no index matches ${
+        properties.length > 0 ? properties.map(String).join(", ") : "the query"
+      }.`,
+    );
+    this.name = "FullScanError";
+  }
+}
+
+/**
+ * Thrown when an EntityInstance is not valid, so it can not be saved.
+ */
+export class ValidationError extends Error {
+  /**
+   * @param entityDefinitionId The id of the EntityDefinition that the EntityInstance was validated against.
+   * @param issues Everything that is wrong with the EntityInstance.
+   */
+  constructor(
+    readonly entityDefinitionId: EntityDefinitionId,
+    readonly issues: ValidationIssue[],
+  ) {
+    super(
+      `Invalid ${entityDefinitionId}: ${
+        issues.map(({ property, message }) =>
+          isDefined(property) ? `${String(property)}: ${message}` : message
+        ).join("; ")
+      }`,
+    );
+    this.name = "ValidationError";
+  }
+}
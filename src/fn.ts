@@ -13,6 +13,54 @@ export async function asArray<T>(
   return results;
 }
 
+/**
+ * Split an array into chunks of at most a given size.
+ * @param array the array to split
+ * @param size the maximum size of each chunk
+ * @returns the chunks
+ */
+export function chunk<T>(array: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < array.length; i += size) {
+    chunks.push(array.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/** The maximum number of keys that Deno.Kv#getMany accepts in one call. */
+export const MAX_GET_MANY_KEYS = 10;
+
+/**
+ * Get the entries for any number of keys, in as few calls to Deno.Kv#getMany as possible.
+ * @param connection the Deno.Kv to read from
+ * @param keys the keys to get the entries for
+ * @returns the entries, in the same order as the keys
+ */
+export async function getManyEntries<T>(
+  connection: Deno.Kv,
+  keys: Deno.KvKey[],
+): Promise<Deno.KvEntryMaybe<T>[]> {
+  const entries: Deno.KvEntryMaybe<T>[] = [];
+  for (const keysChunk of chunk(keys, MAX_GET_MANY_KEYS)) {
+    entries.push(...await connection.getMany<T[]>(keysChunk));
+  }
+  return entries;
+}
+
+/**
+ * Calculate the expireIn that makes a key expire at a given time. It is at least 1, which Deno.Kv requires, also for
+ * a time that has already passed.
+ * @param expiresAt when the key should expire, in milliseconds since the epoch, or undefined if it should not
+ * @returns the expireIn, or undefined if the key should not expire
+ */
+export function getRemainingExpireIn(
+  expiresAt: number | undefined,
+): number | undefined {
+  return expiresAt === undefined
+    ? undefined
+    : Math.max(1, expiresAt - Date.now());
+}
+
 /**
  * Creates a function that gets a property's value from an object.
  * @param name the name of the property to get
@@ -40,6 +88,136 @@ export function isKvKey(value: unknown): value is Deno.KvKey {
   return Array.isArray(value) && value.every(isKvKeyPart);
 }
 
+/**
+ * Calculate the smallest Deno.KvKeyPart of the same type, that sorts after a given one in a Deno.KvKey.
+ * @param part the Deno.KvKeyPart to find the next one after
+ * @returns the next Deno.KvKeyPart, or undefined if there is none
+ */
+export function nextKvKeyPart(part: Deno.KvKeyPart): Maybe<Deno.KvKeyPart> {
+  if (typeof part === "string") {
+    return part + "\0";
+  }
+  if (part instanceof Uint8Array) {
+    return new Uint8Array([...part, 0]);
+  }
+  if (typeof part === "bigint") {
+    return part + 1n;
+  }
+  if (typeof part === "boolean") {
+    return part ? undefined : true;
+  }
+  if (typeof part !== "number" || Number.isNaN(part) || part === Infinity) {
+    return undefined;
+  }
+  if (Object.is(part, -0)) {
+    return 0;
+  }
+  // step the IEEE 754 bits to the adjacent number, away from zero for positive numbers, and towards it for negative
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, part);
+  const bits: bigint = view.getBigUint64(0);
+  view.setBigUint64(0, part >= 0 ? bits + 1n : bits - 1n);
+  return view.getFloat64(0);
+}
+
+/**
+ * Whether a property lookup ends with a range, rather than a value.
+ * @param propertyLookup the property lookup to check
+ */
+export function isPropertyRangeLookup(
+  propertyLookup: unknown,
+): propertyLookup is [...[unknown, Deno.KvKeyPart][], [unknown, object]] {
+  if (!Array.isArray(propertyLookup)) {
+    return false;
+  }
+  const last: unknown = propertyLookup.at(-1);
+  return Array.isArray(last) && last.length === 2 &&
+    typeof last[1] === "object" && !isKvKeyPart(last[1]);
+}
+
+/** Whether two Deno.KvKeyParts are equal */
+export function isSameKvKeyPart(a: Deno.KvKeyPart, b: Deno.KvKeyPart): boolean {
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+  }
+  return typeof a === typeof b && a === b;
+}
+
+/** Whether two Deno.KvKeys are equal */
+export function isSameKvKey(a: Deno.KvKey, b: Deno.KvKey): boolean {
+  return a.length === b.length &&
+    a.every((part, i) => isSameKvKeyPart(part, b[i]));
+}
+
+/**
+ * Whether two values, as stored in a Deno.Kv, are structurally equal.
+ * @param a the first value
+ * @param b the second value
+ */
+export function isSameKvValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== "object" || typeof b !== "object" || a === null ||
+    b === null || a.constructor !== b.constructor
+  ) {
+    return false;
+  }
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime();
+  }
+  if (a instanceof Uint8Array) {
+    return isSameKvKeyPart(a, b as Uint8Array);
+  }
+  if (a instanceof Map || a instanceof Set) {
+    return isSameKvValue([...a], [...b as Map<unknown, unknown>]);
+  }
+  const aKeys: string[] = Object.keys(a);
+  const bKeys: string[] = Object.keys(b);
+  return aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      Object.hasOwn(b, key) &&
+      isSameKvValue(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+      )
+    );
+}
+
+/**
+ * Identify a Deno.KvKey, or some of its parts, by a string, to use it as the key of a Map or Set.
+ * @param key the key parts to identify
+ */
+export function getKvKeyId(key: Deno.KvKey): string {
+  return JSON.stringify(
+    key.map((part: Deno.KvKeyPart) => `${typeof part}:${String(part)}`),
+  );
+}
+
+/**
+ * Get the properties of a unique property: the property itself, or those of a tuple of properties.
+ * @param uniqueProperty the unique property, or tuple of properties
+ */
+export function getUniquePropertyNames<K extends PropertyKey>(
+  uniqueProperty: K | K[],
+): K[] {
+  return Array.isArray(uniqueProperty) ? uniqueProperty : [uniqueProperty];
+}
+
+/**
+ * Get the key part that names a unique property in its keys: the property itself, or the properties of a tuple
+ * joined with "+".
+ * @param uniqueProperty the unique property, or tuple of properties
+ */
+export function getUniquePropertyKeyPart(
+  uniqueProperty: PropertyKey | PropertyKey[],
+): Deno.KvKeyPart {
+  return Array.isArray(uniqueProperty)
+    ? uniqueProperty.map(String).join("+")
+    : uniqueProperty as Deno.KvKeyPart;
+}
+
 /** Whether a value is not undefined */
 export function isDefined<T>(value: T | undefined): value is T {
   return typeof value !== "undefined";
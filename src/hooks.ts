@@ -0,0 +1,45 @@
+import { isDefined, Maybe } from "./fn.ts";
+import { EntityDefinitionId, EntityHooks } from "./types.ts";
+
+/**
+ * Call the beforeSave hooks for an EntityInstance, each with what the previous one returned.
+ * @param hooksList The hooks to call, in order. Undefined ones are skipped.
+ * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance.
+ * @param entityInstance The EntityInstance to save.
+ * @returns the EntityInstance to save instead, or the given one if no hook returned another.
+ */
+export async function callBeforeSaveHooks<T>(
+  hooksList: Maybe<EntityHooks<T>>[],
+  entityDefinitionId: EntityDefinitionId,
+  entityInstance: T,
+): Promise<T> {
+  let result: T = entityInstance;
+  for (const hooks of hooksList) {
+    const returned: T | void = await hooks?.beforeSave?.(
+      entityDefinitionId,
+      result,
+    );
+    if (isDefined(returned)) {
+      result = returned as T;
+    }
+  }
+  return result;
+}
+
+/**
+ * Call one of the hooks that do not return anything, for an EntityInstance.
+ * @param hooksList The hooks to call, in order. Undefined ones are skipped.
+ * @param name Which hook to call.
+ * @param entityDefinitionId The id of the EntityDefinition of the EntityInstance.
+ * @param entityInstance The EntityInstance saved or deleted.
+ */
+export async function callHooks<T>(
+  hooksList: Maybe<EntityHooks<T>>[],
+  name: "afterSave" | "beforeDelete" | "afterDelete",
+  entityDefinitionId: EntityDefinitionId,
+  entityInstance: T,
+): Promise<void> {
+  for (const hooks of hooksList) {
+    await hooks?.[name]?.(entityDefinitionId, entityInstance);
+  }
+}
@@ -0,0 +1,354 @@
+import {
+  asArray,
+  getUniquePropertyKeyPart,
+  getUniquePropertyNames,
+  isDefined,
+  isKvKeyPart,
+  isSameKvValue,
+  Maybe,
+} from "./fn.ts";
+import {
+  EntityDefinition,
+  EntityInstance,
+  Explanation,
+  PropertyLookup,
+  PropertyLookupPair,
+  PropertyRange,
+  QueryCondition,
+  QueryOperator,
+  QueryOrder,
+  UniqueProperty,
+} from "./types.ts";
+
+/** What a {@link Query} asks for. */
+export interface QuerySpec<T> {
+  conditions: QueryCondition<T>[];
+  order?: QueryOrder<T>;
+  limit?: number;
+}
+
+/**
+ * How to find the EntityInstances of a {@link Query}: by looking up one unique key, or by listing the keys of a
+ * lookup. Either way, all conditions are checked again in memory.
+ */
+export type QueryPlan<T extends EntityInstance<T>> =
+  | {
+    kind: "unique";
+
+    /** The unique property, or tuple of unique properties, to look up. */
+    property: UniqueProperty<T>;
+
+    /** The value to look up, or the values of the tuple. */
+    value: Deno.KvKeyPart | Deno.KvKeyPart[];
+  }
+  | {
+    kind: "list";
+
+    /** The indexed property chain to list, or undefined to list the first unique property. */
+    chain?: Array<keyof T>;
+
+    /** What to list. */
+    lookup: PropertyLookup<T>;
+
+    /** Whether the listed keys are in the order of the query, so it can stop at its limit. */
+    ordered: boolean;
+
+    /** Whether all EntityInstances of the EntityDefinition are listed, because no index matches the conditions. */
+    fullScan: boolean;
+  };
+
+/**
+ * A query for EntityInstances of one EntityDefinition, as created by {@link EntityDb#query}. Add conditions with
+ * {@link Query#where}, and then find the matching EntityInstances with {@link Query#findAll} or {@link Query#iterate}.
+ *
+ * For example:
+ *
+ * ```ts
+ * const invoices: Invoice[] = await db.query<Invoice>("invoice")
+ *   .where("customerEmail", "=", "alice@example.com")
+ *   .where("amount", ">", 100)
+ *   .orderBy("amount", "desc")
+ *   .limit(10)
+ *   .findAll();
+ * ```
+ *
+ * The query looks up a unique property with an `=` condition, or a tuple of unique properties with one for each, if
+ * there is one. Otherwise, it lists the indexed property chain that matches the most conditions: `=` conditions on
+ * its first properties, and then any range conditions on the next one. The rest of the conditions are checked in
+ * memory. If no index matches, all EntityInstances of the EntityDefinition are read. Like {@link EntityDb#findAll}, listing a chain does not find
+ * EntityInstances with a null value for any property of it.
+ */
+export class Query<T extends EntityInstance<T>> {
+  private readonly spec: QuerySpec<T> = { conditions: [] };
+
+  /**
+   * @param run Finds the EntityInstances asked for.
+   * @param runExplained Finds the EntityInstances asked for, and explains how.
+   */
+  constructor(
+    private readonly run: (spec: QuerySpec<T>) => AsyncIterableIterator<T>,
+    private readonly runExplained: (
+      spec: QuerySpec<T>,
+    ) => Promise<Explanation>,
+  ) {}
+
+  /**
+   * Only find EntityInstances whose property compares to a value like this.
+   * @param property The property to compare.
+   * @param operator How to compare it.
+   * @param value The value to compare it with.
+   * @returns this query.
+   */
+  where<K extends keyof T>(
+    property: K,
+    operator: QueryOperator,
+    value: T[K],
+  ): this {
+    this.spec.conditions.push({ property, operator, value });
+    return this;
+  }
+
+  /**
+   * Find the EntityInstances in the order of a property.
+   * @param property The property to order by.
+   * @param direction Whether to order by ascending or descending values.
+   * @returns this query.
+   */
+  orderBy(property: keyof T, direction: "asc" | "desc" = "asc"): this {
+    this.spec.order = { property, direction };
+    return this;
+  }
+
+  /**
+   * Find at most a number of EntityInstances.
+   * @param limit The maximum number of EntityInstances to find.
+   * @returns this query.
+   */
+  limit(limit: number): this {
+    this.spec.limit = limit;
+    return this;
+  }
+
+  /**
+   * Iterate over the matching EntityInstances.
+   * @throws FullScanError if no index matches, and {@link QueryOptions#refuseFullScan} is set.
+   */
+  iterate(): AsyncIterableIterator<T> {
+    return this.run(this.copySpec());
+  }
+
+  /**
+   * Find all matching EntityInstances.
+   * @throws FullScanError if no index matches, and {@link QueryOptions#refuseFullScan} is set.
+   */
+  async findAll(): Promise<T[]> {
+    return await asArray(this.iterate());
+  }
+
+  /**
+   * Find all matching EntityInstances, and explain how: which index was used, how many entries were read, and how
+   * long it took.
+   * @throws FullScanError if no index matches, and {@link QueryOptions#refuseFullScan} is set.
+   */
+  async explain(): Promise<Explanation> {
+    return await this.runExplained(this.copySpec());
+  }
+
+  /** Copy what is asked for, so adding to the query later does not change a running one. */
+  private copySpec(): QuerySpec<T> {
+    return { ...this.spec, conditions: [...this.spec.conditions] };
+  }
+}
+
+/**
+ * Decide how to find the EntityInstances of a query. See {@link Query} for how the index is chosen. Among chains that
+ * match as many conditions, one that lists the keys in the order of the query is preferred.
+ * @param entityDefinition The EntityDefinition to query.
+ * @param conditions The conditions of the query.
+ * @param order The order of the query, if any.
+ */
+export function planQuery<T extends EntityInstance<T>>(
+  entityDefinition: EntityDefinition<T>,
+  conditions: QueryCondition<T>[],
+  order: Maybe<QueryOrder<T>>,
+): QueryPlan<T> {
+  // only values that can be part of a key can be looked up
+  const findEquality = (property: keyof T): Maybe<QueryCondition<T>> =>
+    conditions.find((condition: QueryCondition<T>) =>
+      condition.property === property && condition.operator === "=" &&
+      isKvKeyPart(condition.value)
+    );
+
+  for (const uniqueProperty of entityDefinition.uniqueProperties) {
+    // a tuple of unique properties needs an equality for each of them
+    const equalities: Maybe<QueryCondition<T>>[] = getUniquePropertyNames(
+      uniqueProperty,
+    ).map(findEquality);
+    if (equalities.every(isDefined)) {
+      const values = equalities.map(({ value }) => value) as Deno.KvKeyPart[];
+      return {
+        kind: "unique",
+        property: uniqueProperty,
+        value: Array.isArray(uniqueProperty) ? values : values[0],
+      };
+    }
+  }
+
+  let best: Maybe<QueryPlan<T>>;
+  let bestScore = 0;
+  for (const chain of entityDefinition.indexedPropertyChains) {
+    const pairs: PropertyLookupPair<T>[] = [];
+    for (const property of chain) {
+      const equality: Maybe<QueryCondition<T>> = findEquality(property);
+      if (!isDefined(equality)) {
+        break;
+      }
+      pairs.push([property, equality.value] as PropertyLookupPair<T>);
+    }
+    const next: Maybe<keyof T> = chain[pairs.length];
+    const range: PropertyRange<unknown> = isDefined(next)
+      ? getRange(conditions.filter(({ property }) => property === next))
+      : {};
+    const ranged: boolean = Object.keys(range).length > 0;
+    if (pairs.length === 0 && !ranged) {
+      continue;
+    }
+    const ordered: boolean = !isDefined(order) ||
+      order.property === next ||
+      pairs.some(([property]) => property === order.property);
+    // each matched condition counts more than being ordered
+    const score: number = (pairs.length * 2 + (ranged ? 1 : 0)) * 2 +
+      (ordered ? 1 : 0);
+    if (score > bestScore) {
+      bestScore = score;
+      best = {
+        kind: "list",
+        chain,
+        lookup: (ranged ? [...pairs, [next, range]] : pairs) as PropertyLookup<
+          T
+        >,
+        ordered,
+        fullScan: false,
+      };
+    }
+  }
+  if (isDefined(best)) {
+    return best;
+  }
+
+  // each EntityInstance is stored once at its first unique property, in the order of its values
+  const primaryProperty: UniqueProperty<T> =
+    entityDefinition.uniqueProperties[0];
+  return {
+    kind: "list",
+    lookup: getUniquePropertyKeyPart(primaryProperty) as PropertyLookup<T>,
+    ordered: !isDefined(order) ||
+      order.property === getUniquePropertyNames(primaryProperty)[0],
+    fullScan: true,
+  };
+}
+
+/**
+ * Find the indexed property chain whose keys a lookup lists, if any.
+ * @param entityDefinition The EntityDefinition to look up.
+ * @param lookup The lookup, as passed to {@link EntityDb#findAll}.
+ * @returns the chain, or undefined if the lookup lists the keys of a unique property, or all keys.
+ */
+export function findChain<T extends EntityInstance<T>>(
+  entityDefinition: EntityDefinition<T>,
+  lookup: Maybe<PropertyLookup<T>>,
+): Maybe<Array<keyof T>> {
+  if (!isDefined(lookup)) {
+    return undefined;
+  }
+  const properties: Array<keyof T> = isKvKeyPart(lookup)
+    ? [lookup as keyof T]
+    : lookup.map(([property]) => property as keyof T);
+  if (properties.length === 0) {
+    return undefined;
+  }
+  return entityDefinition.indexedPropertyChains.find((chain) =>
+    properties.every((property: keyof T, i: number) => chain[i] === property)
+  );
+}
+
+/**
+ * Combine range conditions on one property into a {@link PropertyRange}, of those values that can be part of a key.
+ * Where there are several bounds on one side, the first is used, as all conditions are checked in memory anyway.
+ * @param conditions The conditions on the property.
+ */
+function getRange<T>(conditions: QueryCondition<T>[]): PropertyRange<unknown> {
+  const range: PropertyRange<unknown> = {};
+  for (const { operator, value } of conditions) {
+    if (!isKvKeyPart(value)) {
+      continue;
+    }
+    if (operator === ">" || operator === ">=") {
+      if (!isDefined(range.gt) && !isDefined(range.gte)) {
+        range[operator === ">" ? "gt" : "gte"] = value;
+      }
+    }
+    if (operator === "<" || operator === "<=") {
+      if (!isDefined(range.lt) && !isDefined(range.lte)) {
+        range[operator === "<" ? "lt" : "lte"] = value;
+      }
+    }
+  }
+  return range;
+}
+
+/**
+ * Whether an EntityInstance meets all conditions.
+ * @param entityInstance The EntityInstance to check.
+ * @param conditions The conditions to meet.
+ */
+export function matchesConditions<T>(
+  entityInstance: T,
+  conditions: QueryCondition<T>[],
+): boolean {
+  return conditions.every(({ property, operator, value }) => {
+    const actual: unknown = entityInstance[property];
+    if (operator === "=") {
+      return isSameKvValue(actual, value);
+    }
+    if (operator === "!=") {
+      return !isSameKvValue(actual, value);
+    }
+    if ([actual, value].some((part) => !isDefined(part) || part === null)) {
+      return false;
+    }
+    const comparison: number = compareValues(actual, value);
+    return {
+      "<": comparison < 0,
+      "<=": comparison <= 0,
+      ">": comparison > 0,
+      ">=": comparison >= 0,
+    }[operator];
+  });
+}
+
+/**
+ * Sort EntityInstances in the order of a query.
+ * @param entityInstances The EntityInstances to sort, in place.
+ * @param order The order to sort them in.
+ */
+export function sortByOrder<T>(
+  entityInstances: T[],
+  { property, direction }: QueryOrder<T>,
+): T[] {
+  const sign: number = direction === "desc" ? -1 : 1;
+  return entityInstances.sort((a: T, b: T) =>
+    sign * compareValues(a[property], b[property])
+  );
+}
+
+/**
+ * Compare two values of a property, with Dates compared by their time.
+ * @returns a negative number, zero or a positive number, if a is less than, equal to or greater than b.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const [x, y] = [a, b].map((value: unknown) =>
+    value instanceof Date ? value.getTime() : value
+  ) as [number, number];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
@@ -0,0 +1,106 @@
+import { getUniquePropertyKeyPart, isDefined, Maybe } from "./fn.ts";
+import {
+  EntityDefinition,
+  EntityDefinitionId,
+  EntityInstance,
+  SchemaChange,
+  StoredEntityDefinition,
+  UniqueProperty,
+} from "./types.ts";
+
+/**
+ * Extract the parts of an EntityDefinition that decide how its EntityInstances are stored.
+ * @param entityDefinition The EntityDefinition to extract from.
+ */
+export function toStoredEntityDefinition<T extends EntityInstance<T>>(
+  entityDefinition: EntityDefinition<T>,
+): StoredEntityDefinition {
+  return {
+    uniqueProperties: entityDefinition.uniqueProperties.map((
+      uniqueProperty: UniqueProperty<T>,
+    ) => Array.isArray(uniqueProperty) ? [...uniqueProperty] : uniqueProperty),
+    indexedPropertyChains: entityDefinition.indexedPropertyChains.map(
+      (chain: Array<keyof T>) => [...chain],
+    ),
+    version: entityDefinition.version ?? 0,
+    ...(entityDefinition.counters ? { counters: true } : {}),
+    ...(entityDefinition.searchableProperties?.length
+      ? { searchableProperties: [...entityDefinition.searchableProperties] }
+      : {}),
+  };
+}
+
+/**
+ * Compare a stored EntityDefinition with the current one.
+ * @param entityDefinitionId The id of the EntityDefinition.
+ * @param stored What was stored in the db, if anything.
+ * @param current What the EntityDefinition looks like now.
+ * @returns the differences, or undefined if there are none.
+ */
+export function getSchemaChange(
+  entityDefinitionId: EntityDefinitionId,
+  stored: Maybe<StoredEntityDefinition>,
+  current: StoredEntityDefinition,
+): Maybe<SchemaChange> {
+  const storedUniqueProperties: Array<PropertyKey | PropertyKey[]> =
+    stored?.uniqueProperties ?? [];
+  const storedChains: PropertyKey[][] = stored?.indexedPropertyChains ?? [];
+  const change: SchemaChange = {
+    entityDefinitionId,
+    stored,
+    current,
+    addedUniqueProperties: current.uniqueProperties.filter(
+      (property: PropertyKey | PropertyKey[]) =>
+        !includesUniqueProperty(storedUniqueProperties, property),
+    ),
+    removedUniqueProperties: storedUniqueProperties.filter(
+      (property: PropertyKey | PropertyKey[]) =>
+        !includesUniqueProperty(current.uniqueProperties, property),
+    ),
+    addedIndexedPropertyChains: current.indexedPropertyChains.filter(
+      (chain: PropertyKey[]) => !includesChain(storedChains, chain),
+    ),
+    removedIndexedPropertyChains: storedChains.filter(
+      (chain: PropertyKey[]) =>
+        !includesChain(current.indexedPropertyChains, chain),
+    ),
+  };
+  const isChanged: boolean = !isDefined(stored) ||
+    stored.version !== current.version ||
+    getUniquePropertyKeyPart(stored.uniqueProperties[0]) !==
+      getUniquePropertyKeyPart(current.uniqueProperties[0]) ||
+    (stored.counters ?? false) !== (current.counters ?? false) ||
+    !isSameProperties(
+      stored.searchableProperties ?? [],
+      current.searchableProperties ?? [],
+    ) ||
+    [
+      change.addedUniqueProperties,
+      change.removedUniqueProperties,
+      change.addedIndexedPropertyChains,
+      change.removedIndexedPropertyChains,
+    ].some((differences: unknown[]) => differences.length > 0);
+  return isChanged ? change : undefined;
+}
+
+function includesUniqueProperty(
+  uniqueProperties: Array<PropertyKey | PropertyKey[]>,
+  uniqueProperty: PropertyKey | PropertyKey[],
+): boolean {
+  // a tuple is stored at its properties joined into one key part, so tuples that join the same are the same
+  return uniqueProperties.some((other: PropertyKey | PropertyKey[]) =>
+    getUniquePropertyKeyPart(other) === getUniquePropertyKeyPart(uniqueProperty)
+  );
+}
+
+function includesChain(
+  chains: PropertyKey[][],
+  chain: PropertyKey[],
+): boolean {
+  return chains.some((other: PropertyKey[]) => isSameProperties(other, chain));
+}
+
+function isSameProperties(a: PropertyKey[], b: PropertyKey[]): boolean {
+  return a.length === b.length &&
+    a.every((property: PropertyKey, i: number) => property === b[i]);
+}
@@ -0,0 +1,48 @@
+/**
+ * Split text into the words that {@link EntityDefinition#searchableProperties} are indexed by: lower-cased runs of
+ * letters and digits.
+ * @param text The text to split.
+ * @returns the words, in order, including repeated ones.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Count how often each word occurs in the searchable properties of an EntityInstance. Values that are not strings are
+ * left out.
+ * @param entityInstance The EntityInstance to count the words of.
+ * @param properties The searchable properties.
+ * @returns the number of occurrences, by word.
+ */
+export function countTokens<T>(
+  entityInstance: T,
+  properties: Array<keyof T>,
+): Map<string, number> {
+  const counts: Map<string, number> = new Map();
+  for (const property of properties) {
+    const value: unknown = entityInstance[property];
+    if (typeof value !== "string") {
+      continue;
+    }
+    for (const token of tokenize(value)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Find the first string after all strings that start with a word, to end a list of them. Deno.Kv orders strings by
+ * their UTF-8 bytes, which is the order of their code points, so that is the word with its last code point
+ * increased. A word of {@link tokenize} never ends with the largest code point, which is not a letter or digit.
+ * @param token The word to end the list of.
+ */
+export function getTokenPrefixEnd(token: string): string {
+  const codePoints: number[] = [...token].map((char: string) =>
+    char.codePointAt(0)!
+  );
+  const last: number = codePoints.pop()! + 1;
+  // the surrogates are not code points of their own
+  return String.fromCodePoint(...codePoints, last === 0xd800 ? 0xe000 : last);
+}
@@ -87,6 +87,58 @@ export type PropertyLookupPair<
   & Deno.KvKey
   & [IndexedProperty<T>, T[IndexedProperty<T>]];
 
+/**
+ * A range of values, for the last property of an indexed property chain.
+ *
+ * For example `{ gte: 100, lt: 500 }`. At most one of `gt` and `gte`, and one of `lt` and `lte`, may be given. Values
+ * compare in the order of {@link Deno.KvKey}s, so they should be of the same type as the stored values.
+ */
+export interface PropertyRange<V> {
+  /** Only values greater than this. */
+  gt?: V;
+
+  /** Only values greater than or equal to this. */
+  gte?: V;
+
+  /** Only values less than this. */
+  lt?: V;
+
+  /** Only values less than or equal to this. */
+  lte?: V;
+}
+
+/**
+ * A tuple:
+ *  The first element is an indexed property from T.
+ *  The second element is a range of values for that property.
+ */
+export type PropertyRangePair<
+  T extends EntityInstance<T>,
+> = [IndexedProperty<T>, PropertyRange<T[IndexedProperty<T>]>];
+
+/**
+ * What to look up EntityInstances by, with {@link EntityDb#findAll} or {@link EntityDb#iterate}.
+ *
+ * Either a chain of property lookup pairs, optionally ending with a range for the last property. Or the name of a
+ * single indexed property.
+ *
+ * For example `[["customerEmail", "alice@example.com"], ["amount", { gte: 100, lte: 500 }]]`.
+ */
+export type PropertyLookup<T extends EntityInstance<T>> =
+  | PropertyLookupPair<T>[]
+  | [...PropertyLookupPair<T>[], PropertyRangePair<T>]
+  | IndexedProperty<T>;
+
+/**
+ * One of the {@link EntityDefinition#uniqueProperties}: a property, or a tuple of properties that are unique together.
+ */
+export type UniqueProperty<T> = keyof T | Array<keyof T>;
+
+/**
+ * The value of a {@link UniqueProperty}: that of the property, or those of the tuple of properties, in its order.
+ */
+export type UniquePropertyValue<T> = T[keyof T] | Array<T[keyof T]>;
+
 /**
  * A definition of an Entity that can be stored in the db.
  */
@@ -97,16 +149,383 @@ export interface EntityDefinition<T extends EntityInstance<T>> {
   /** Unused instance of T, to help TypeScript infer types. */
   _exampleEntityInstance: T;
 
-  /** For example ["ssn", "emailAddress"]. These must be properties of T. */
-  uniqueProperties: Array<keyof T>;
+  /**
+   * For example ["ssn", "emailAddress"]. These must be properties of T, or tuples of properties of T that are unique
+   * together, for example [["customerEmail", "invoiceNumber"]]. The first one identifies each EntityInstance.
+   *
+   * A tuple is stored at one key, with its properties joined into one key part, followed by their values, for example
+   * ["invoice", "customerEmail+invoiceNumber", "alice@example.com", "123"]. So its keys are never listed along with
+   * those of an indexed property chain starting with the same property. The name of a unique property can therefore
+   * not contain a "+".
+   */
+  uniqueProperties: Array<UniqueProperty<T>>;
 
   /**
    * For example [["lastname", "firstname"], ["country", "zipcode"]]. These must be chains of properties on T. They will
    * be used to construct Deno.KvKey's, for example ["lastname", "Doe", "firstname", "Alice"]
+   *
+   * An EntityInstance with a null value for any property of a chain, is not indexed by that chain.
    */
   indexedPropertyChains: Array<Array<keyof T>>;
+
+  /**
+   * Validates each EntityInstance before it is saved, in addition to the built-in check that all unique and indexed
+   * properties are valid Deno.KvKeyPart's.
+   *
+   * Either a function returning any {@link ValidationIssue}s, or a {@link StandardSchemaV1} compatible schema, such as
+   * those of Zod, Valibot or ArkType.
+   */
+  validate?: EntityValidator<T>;
+
+  /**
+   * The version of the shape of T. Increase it when the shape changes, and add a migration for the new version to
+   * {@link EntityDefinition#migrations}. Defaults to 0.
+   *
+   * Each EntityInstance remembers the version it was saved with, and {@link EntityDb#migrate} runs the migrations
+   * after that version. EntityInstances saved without a version are taken to be at the version of the last migrate,
+   * or at version 0 before the first one, so that it runs all migrations.
+   */
+  version?: number;
+
+  /**
+   * Functions that transform a stored EntityInstance to a new {@link EntityDefinition#version}, keyed by the version
+   * they transform to. Run by {@link EntityDb#migrate}, in order, for each version after the one stored.
+   */
+  migrations?: Record<number, EntityMigration<T>>;
+
+  /** Functions to call around saving and deleting EntityInstances of this EntityDefinition. */
+  hooks?: EntityHooks<T>;
+
+  /**
+   * Whether to maintain the `createdAt` and `updatedAt` properties of each EntityInstance, as Dates. When saving,
+   * `updatedAt` is set to now, and `createdAt` is kept from the stored EntityInstance, or set to now if there is none,
+   * unless the save passes {@link SaveOptions#preserveTimestamps}. Defaults to false.
+   */
+  timestamps?: boolean;
+
+  /**
+   * How many milliseconds EntityInstances of this EntityDefinition live after they are saved, unless a save passes
+   * its own {@link SaveOptions#expireIn}. If undefined, they live until they are deleted.
+   *
+   * All keys of an EntityInstance get the same expiry, so it vanishes as a unit. Deno.Kv deletes expired keys
+   * eventually, not right away. When it expires is stored along with it, so soft deleting, restoring, reindexing and
+   * repairing an EntityInstance keep the rest of its expiry, rather than starting over.
+   */
+  expireIn?: number;
+
+  /**
+   * Whether deleting an EntityInstance only sets its `deletedAt` property to now, instead of erasing it. Soft deleted
+   * EntityInstances keep their keys, including their unique keys, but are left out when finding, unless
+   * {@link FindOptions#includeDeleted} is true. Use {@link EntityDb#restore} to undo a soft delete, and
+   * {@link DeleteOptions#permanent} to erase an EntityInstance anyway. Defaults to false.
+   */
+  softDelete?: boolean;
+
+  /**
+   * Whether to maintain counters of the EntityInstances of this EntityDefinition: one of them all, and one for each
+   * value of each leading part of each indexed property chain. Then {@link EntityDb#count} reads one counter, rather
+   * than listing the EntityInstances, when it is not asked for soft deleted ones, and the lookup has values for the
+   * first properties of a chain. Defaults to false.
+   *
+   * Each save and delete then also updates the counters. They would not be updated when EntityInstances expire, so an
+   * EntityDefinition with counters can not have an {@link EntityDefinition#expireIn}, nor be saved with
+   * {@link SaveOptions#expireIn}. Turning them on or off is a {@link SchemaChange}, and
+   * {@link EntityDb#migrate} or {@link EntityDb#reindex} recomputes them.
+   */
+  counters?: boolean;
+
+  /**
+   * String properties to search with {@link EntityDb#search}. Each save maintains an index of the words in their
+   * values: lower-cased runs of letters and digits, with one key per distinct word of an EntityInstance. Values that
+   * are not strings are not indexed. Defaults to none.
+   *
+   * The keys of the index are written in the same atomic operation as the other keys of an EntityInstance, so a value
+   * with very many distinct words may not fit in it. Changing the searchable properties is a {@link SchemaChange},
+   * and {@link EntityDb#migrate} or {@link EntityDb#reindex} rebuilds the index.
+   */
+  searchableProperties?: Array<keyof T>;
+
+  /**
+   * Relations to EntityInstances of other EntityDefinitions, by name. They can be loaded together with the
+   * EntityInstances of this EntityDefinition, with {@link FindOptions#include}.
+   *
+   * For example, for a Person: `{ invoices: { kind: "hasMany", entityDefinitionId: "invoice", property: "email",
+   * relatedProperty: "customerEmail", onDelete: "cascade" } }`.
+   */
+  relations?: Record<string, Relation<T>>;
+}
+
+/**
+ * What to do with related EntityInstances of a {@link HasManyRelation}, when an EntityInstance is deleted:
+ * - "restrict": refuse to delete it, by throwing a {@link ReferentialIntegrityError}.
+ * - "cascade": delete the related EntityInstances too.
+ * - "setNull": save the related EntityInstances with their {@link HasManyRelation#relatedProperty} set to null.
+ */
+export type RelationDeleteAction = "restrict" | "cascade" | "setNull";
+
+/**
+ * A relation to the one EntityInstance that an EntityInstance refers to, by a unique property of that one. For
+ * example, from an Invoice to the Person with the email of its `customerEmail`.
+ */
+export interface BelongsToRelation<T> {
+  kind: "belongsTo";
+
+  /** The id of the EntityDefinition of the related EntityInstance. */
+  entityDefinitionId: EntityDefinitionId;
+
+  /** The property of this EntityInstance, that holds the value of the related one's unique property. */
+  property: keyof T;
+
+  /** The unique property of the related EntityInstance. */
+  relatedProperty: PropertyKey;
+}
+
+/**
+ * A relation to all EntityInstances that refer to an EntityInstance, by an indexed property of those. For example,
+ * from a Person to the Invoices with its email as `customerEmail`.
+ */
+export interface HasManyRelation<T> {
+  kind: "hasMany";
+
+  /** The id of the EntityDefinition of the related EntityInstances. */
+  entityDefinitionId: EntityDefinitionId;
+
+  /** The property of this EntityInstance, whose value the related EntityInstances hold. */
+  property: keyof T;
+
+  /** The property of the related EntityInstances that holds the value. It must start an indexed property chain. */
+  relatedProperty: PropertyKey;
+
+  /** What to do with the related EntityInstances, when this EntityInstance is deleted. Defaults to nothing. */
+  onDelete?: RelationDeleteAction;
 }
 
+/**
+ * A relation between EntityDefinitions. See {@link EntityDefinition#relations}.
+ */
+export type Relation<T> = BelongsToRelation<T> | HasManyRelation<T>;
+
+/**
+ * Transforms an EntityInstance from the previous {@link EntityDefinition#version}, to a new one.
+ */
+export type EntityMigration<T> = (
+  entityInstance: Record<string, unknown>,
+) => T | Promise<T>;
+
+/**
+ * The parts of an EntityDefinition that decide how its EntityInstances are stored. These are stored in the db by
+ * {@link EntityDb#migrate}, to detect changes to the EntityDefinition later.
+ */
+export interface StoredEntityDefinition {
+  /** See {@link EntityDefinition#uniqueProperties}. */
+  uniqueProperties: Array<PropertyKey | PropertyKey[]>;
+
+  /** See {@link EntityDefinition#indexedPropertyChains}. */
+  indexedPropertyChains: PropertyKey[][];
+
+  /** See {@link EntityDefinition#version}. */
+  version: number;
+
+  /** See {@link EntityDefinition#counters}. Left out, unless true. */
+  counters?: boolean;
+
+  /** See {@link EntityDefinition#searchableProperties}. Left out, unless there are any. */
+  searchableProperties?: PropertyKey[];
+}
+
+/**
+ * How an EntityDefinition differs from what was stored in the db when it was last migrated.
+ */
+export interface SchemaChange {
+  /** The id of the EntityDefinition that changed. */
+  entityDefinitionId: EntityDefinitionId;
+
+  /** What was stored in the db, or undefined if the EntityDefinition has never been migrated. */
+  stored?: StoredEntityDefinition;
+
+  /** What the EntityDefinition looks like now. */
+  current: StoredEntityDefinition;
+
+  /** Unique properties that have no keys in the db yet. */
+  addedUniqueProperties: Array<PropertyKey | PropertyKey[]>;
+
+  /** Unique properties whose keys should be removed from the db. */
+  removedUniqueProperties: Array<PropertyKey | PropertyKey[]>;
+
+  /** Indexed property chains that have no keys in the db yet. */
+  addedIndexedPropertyChains: PropertyKey[][];
+
+  /** Indexed property chains whose keys should be removed from the db. */
+  removedIndexedPropertyChains: PropertyKey[][];
+}
+
+/**
+ * Options for {@link EntityDb#migrate} and {@link EntityDb#reindex}.
+ */
+export interface MigrateOptions {
+  /** How many EntityInstances to rewrite per atomic operation. Defaults to 100. */
+  batchSize?: number;
+
+  /** Called after each atomic operation, with how many EntityInstances have been rewritten so far. */
+  onProgress?: (progress: MigrateProgress) => void;
+}
+
+/**
+ * How far {@link EntityDb#migrate} or {@link EntityDb#reindex} has come.
+ */
+export interface MigrateProgress {
+  /** The id of the EntityDefinition being migrated. */
+  entityDefinitionId: EntityDefinitionId;
+
+  /** How many of its EntityInstances have been rewritten so far. */
+  migrated: number;
+}
+
+/**
+ * How {@link EntityDb#verify} should verify.
+ */
+export interface VerifyOptions {
+  /** Whether to fix the issues found, except for conflicts. Defaults to false, which only reports them. */
+  repair?: boolean;
+
+  /** How many keys to look at, and how many keys to fix per atomic operation. Defaults to 100. */
+  batchSize?: number;
+}
+
+/**
+ * The kind of an {@link IntegrityIssue}:
+ * - "orphan": a key that no EntityInstance should be stored at, for example one left behind by a deleted EntityInstance. Repaired by deleting it.
+ * - "missing": a key that an EntityInstance should be stored at, but is not. Repaired by storing it there.
+ * - "divergent": a key that an EntityInstance is stored at, with a value that differs from the one at its primary key. Repaired by storing the value at its primary key there.
+ * - "conflict": a unique key that two EntityInstances should both be stored at. Not repaired, since only one of them can be kept.
+ */
+export type IntegrityIssueKind =
+  | "orphan"
+  | "missing"
+  | "divergent"
+  | "conflict";
+
+/**
+ * A key that is not consistent with the EntityInstances in the db, as found by {@link EntityDb#verify}.
+ */
+export interface IntegrityIssue {
+  /** What is wrong with the key. */
+  kind: IntegrityIssueKind;
+
+  /** The id of the EntityDefinition the key belongs to. */
+  entityDefinitionId: EntityDefinitionId;
+
+  /** The key. */
+  key: Deno.KvKey;
+}
+
+/**
+ * Something wrong with an EntityInstance, as found by validating it.
+ */
+export interface ValidationIssue {
+  /** The property that is wrong, if it is about a specific property. */
+  property?: PropertyKey;
+
+  /** What is wrong. */
+  message: string;
+}
+
+/**
+ * A function that validates an EntityInstance, returning any issues found. No issues means it is valid.
+ */
+export type EntityValidatorFunction<T> = (
+  entityInstance: T,
+) =>
+  | ValidationIssue[]
+  | void
+  | Promise<ValidationIssue[] | void>;
+
+/**
+ * The parts of a Standard Schema (https://standardschema.dev) that are used for validating EntityInstances.
+ */
+export interface StandardSchemaV1<T = unknown> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaV1Result<T> | Promise<StandardSchemaV1Result<T>>;
+  };
+}
+
+/**
+ * The result of validating with a {@link StandardSchemaV1}.
+ */
+export type StandardSchemaV1Result<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | {
+    readonly issues: ReadonlyArray<{
+      readonly message: string;
+      readonly path?: ReadonlyArray<
+        PropertyKey | { readonly key: PropertyKey }
+      >;
+    }>;
+  };
+
+/**
+ * Validates EntityInstances. See {@link EntityDefinition#validate}.
+ */
+export type EntityValidator<T> =
+  | EntityValidatorFunction<T>
+  | StandardSchemaV1<T>;
+
+/**
+ * Functions that are called around saving and deleting EntityInstances, configured either for all EntityDefinitions
+ * in {@link DbConfig#hooks}, or for one in {@link EntityDefinition#hooks}. The hooks of the DbConfig are called first.
+ *
+ * The before hooks are called while planning the operation, so they may be called more than once, when the operation is
+ * retried because of concurrent modifications. They can prevent the operation by throwing. The after hooks are called
+ * once, after the operation is committed, and are not part of it.
+ *
+ * Clearing, migrating and repairing do not call any hooks.
+ */
+export interface EntityHooks<T> {
+  /**
+   * Called before an EntityInstance is validated and saved. If it returns an EntityInstance, that is saved instead, at
+   * the keys calculated from it.
+   */
+  beforeSave?: (
+    entityDefinitionId: EntityDefinitionId,
+    entityInstance: T,
+  ) => T | void | Promise<T | void>;
+
+  /** Called after an EntityInstance is saved, with the EntityInstance as it was saved. */
+  afterSave?: (
+    entityDefinitionId: EntityDefinitionId,
+    entityInstance: T,
+  ) => void | Promise<void>;
+
+  /** Called before an EntityInstance is deleted, with the EntityInstance as it is stored. */
+  beforeDelete?: (
+    entityDefinitionId: EntityDefinitionId,
+    entityInstance: T,
+  ) => void | Promise<void>;
+
+  /** Called after an EntityInstance is deleted, with the EntityInstance as it was stored. */
+  afterDelete?: (
+    entityDefinitionId: EntityDefinitionId,
+    entityInstance: T,
+  ) => void | Promise<void>;
+}
+
+/**
+ * {@link EntityHooks} for EntityInstances of any EntityDefinition. The beforeSave hook is generic, because it must
+ * return an EntityInstance of the same EntityDefinition as it was given.
+ */
+export type GlobalEntityHooks<Ts> =
+  & Omit<EntityHooks<Ts>, "beforeSave">
+  & {
+    beforeSave?: <T extends Ts>(
+      entityDefinitionId: EntityDefinitionId,
+      entityInstance: T,
+    ) => T | void | Promise<T | void>;
+  };
+
 /**
  * Helper type to extract the EntityDefinition from an EntityInstance.
  *
@@ -135,9 +554,42 @@ export interface DbConfig<
   /** The path to the file where the db is stored. If undefined, the default db is used. */
   dbFilePath?: string;
 
+  /**
+   * An already open connection, to share between all operations. If given, {@link DbConfig#dbFilePath} is not used,
+   * and the connection is not closed by the EntityDb.
+   */
+  kv?: Deno.Kv;
+
   /** Any prefix to use for all keys in the db. */
   prefix?: Deno.KvKey;
 
+  /**
+   * What to store at each key of an EntityInstance. Defaults to "copies".
+   *
+   * - "copies": every unique key and indexed key holds a full copy of the EntityInstance.
+   * - "references": only the primary key (for the first of the {@link EntityDefinition#uniqueProperties}) holds the
+   *   EntityInstance. All other keys hold that primary key, as a reference to it.
+   *
+   * Entries are read the same way in both cases, so a db written with "copies" can still be read after switching to
+   * "references".
+   */
+  valueStorage?: ValueStorage;
+
+  /**
+   * Whether {@link EntityDb.open} should run {@link EntityDb#migrate}, if any EntityDefinition has changed since it was
+   * last migrated.
+   */
+  migrateOnOpen?: boolean;
+
+  /**
+   * Whether to keep a log of all changes to EntityInstances, readable with {@link EntityDb#changes}. Each change is
+   * appended in the same atomic operation as the change itself. Defaults to false.
+   */
+  changelog?: boolean;
+
+  /** Functions to call around saving and deleting EntityInstances of any EntityDefinition. */
+  hooks?: GlobalEntityHooks<Ts>;
+
   /**
    * The EntityDefinitions that define the structure of the entities that can be stored in the db.
    *
@@ -166,6 +618,371 @@ export interface DbConfig<
   };
 }
 
+/**
+ * How an EntityInstance is stored at its keys. See {@link DbConfig#valueStorage}.
+ */
+export type ValueStorage = "copies" | "references";
+
+/**
+ * Options for saving an EntityInstance.
+ */
+export interface SaveOptions {
+  /**
+   * The versionstamp that the stored EntityInstance is expected to have, as returned by
+   * {@link EntityDb#findWithVersion}. Use `null` to expect that it is not stored yet. If undefined, nothing is
+   * expected.
+   */
+  expectedVersionstamp?: string | null;
+
+  /**
+   * How many milliseconds the saved EntityInstance lives, overriding any {@link EntityDefinition#expireIn}. Saving it
+   * again starts over, with the expiry of that save. Rewrites by the EntityDb itself, like a soft delete, keep it.
+   */
+  expireIn?: number;
+
+  /**
+   * Whether to keep the `createdAt` and `updatedAt` of the given EntityInstance, rather than stamping them with now,
+   * when the EntityDefinition has {@link EntityDefinition#timestamps}. Either one that is missing is still stamped.
+   * Meant for restoring EntityInstances as they were, like when importing them. Defaults to false.
+   */
+  preserveTimestamps?: boolean;
+}
+
+/**
+ * Options for deleting an EntityInstance.
+ */
+export interface DeleteOptions {
+  /** Whether to erase the EntityInstance, even if its EntityDefinition has {@link EntityDefinition#softDelete}. */
+  permanent?: boolean;
+}
+
+/**
+ * Options for finding EntityInstances.
+ */
+export interface FindOptions {
+  /** Whether to also find EntityInstances that are soft deleted. See {@link EntityDefinition#softDelete}. */
+  includeDeleted?: boolean;
+
+  /**
+   * The names of {@link EntityDefinition#relations} to load. Each is added to the found EntityInstances as a property
+   * of the same name: the related EntityInstance or undefined for a belongs-to relation, and an array of them for a
+   * has-many relation. Requires the id of the EntityDefinition to find.
+   */
+  include?: string[];
+}
+
+/**
+ * Where to find an EntityInstance with {@link EntityDb#watchMany}: the id of its EntityDefinition, one of its unique
+ * properties, and the value of that property.
+ */
+export type UniqueLookup<T extends EntityInstance<T>> = [
+  ExtractEntityDefinitionId<T>,
+  UniqueProperty<T>,
+  UniquePropertyValue<T>,
+];
+
+/**
+ * An EntityInstance, together with the versionstamp of its stored entry.
+ */
+export interface Versioned<T extends EntityInstance<T>> {
+  /** The EntityInstance. */
+  value: T;
+
+  /** The versionstamp of the EntityInstance's primary key entry. */
+  versionstamp: string;
+}
+
+/**
+ * Options for finding a page of EntityInstances with {@link EntityDb#findAll}.
+ */
+export interface FindAllOptions extends FindOptions {
+  /**
+   * The maximum number of EntityInstances to find. If undefined, all are found. Soft deleted EntityInstances that are
+   * left out still count towards it, so a page may hold fewer.
+   */
+  limit?: number;
+
+  /** Whether to find the EntityInstances in reverse key order. */
+  reverse?: boolean;
+
+  /** Where to continue from, as returned in {@link Page#cursor} by a previous call. */
+  cursor?: string;
+}
+
+/**
+ * How a {@link QueryCondition} compares the value of a property with its value.
+ */
+export type QueryOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+/**
+ * A condition that EntityInstances must meet to be found by a {@link Query}.
+ */
+export interface QueryCondition<T> {
+  /** The property to compare. */
+  property: keyof T;
+
+  /** How to compare it. */
+  operator: QueryOperator;
+
+  /** The value to compare it with. */
+  value: unknown;
+}
+
+/**
+ * In what order a {@link Query} finds EntityInstances.
+ */
+export interface QueryOrder<T> {
+  /** The property to order by. */
+  property: keyof T;
+
+  /** Whether to order by ascending or descending values. */
+  direction: "asc" | "desc";
+}
+
+/**
+ * Options for a {@link Query}, as passed to {@link EntityDb#query}.
+ */
+export interface QueryOptions {
+  /**
+   * Called when the query has to read all EntityInstances of the EntityDefinition, because no unique property or
+   * indexed property chain matches its conditions. Use it to notice missing indexes.
+   */
+  onFullScan?: (
+    entityDefinitionId: EntityDefinitionId,
+    properties: PropertyKey[],
+  ) => void;
+
+  /** Whether to throw a {@link FullScanError}, rather than read all EntityInstances of the EntityDefinition. */
+  refuseFullScan?: boolean;
+}
+
+/**
+ * How EntityInstances were found, as returned by {@link EntityDb#explain} and {@link Query#explain}. Use it to decide
+ * which {@link EntityDefinition#indexedPropertyChains} to add.
+ */
+export interface Explanation {
+  /** The keys that were listed, or undefined if one unique key was read instead. */
+  selector?: Deno.KvListSelector;
+
+  /** The unique key that was read, if any. */
+  key?: Deno.KvKey;
+
+  /** The indexed property chain whose keys were listed, if any. */
+  chain?: PropertyKey[];
+
+  /** Whether all keys of the EntityDefinition, or of one of its indexes, were listed, without narrowing by a value. */
+  fullScan: boolean;
+
+  /** How many entries were read from the Deno.Kv: those listed, and those they refer to. */
+  entriesRead: number;
+
+  /** How many EntityInstances were found. */
+  entitiesReturned: number;
+
+  /** How many milliseconds finding them took. */
+  elapsedMs: number;
+}
+
+/**
+ * Options for counting EntityInstances with {@link EntityDb#count}, or aggregating them with
+ * {@link EntityDb#aggregate}.
+ */
+export interface CountOptions {
+  /** Whether to also count EntityInstances that are soft deleted. See {@link EntityDefinition#softDelete}. */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Options for {@link EntityDb#search}.
+ */
+export interface SearchOptions {
+  /** Whether each word searched for also matches the words that start with it. Defaults to true. */
+  prefix?: boolean;
+
+  /** The maximum number of EntityInstances to find. If undefined, all matching EntityInstances are found. */
+  limit?: number;
+
+  /** Whether to also find EntityInstances that are soft deleted. See {@link EntityDefinition#softDelete}. */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Aggregates of a numeric property of EntityInstances, as calculated by {@link EntityDb#aggregate}. EntityInstances
+ * whose value of it is not a number are left out.
+ */
+export interface Aggregates {
+  /** How many EntityInstances have a number for the property. */
+  count: number;
+
+  /** The sum of their numbers, or 0 if there are none. */
+  sum: number;
+
+  /** The smallest of their numbers, if there are any. */
+  min?: number;
+
+  /** The largest of their numbers, if there are any. */
+  max?: number;
+
+  /** The average of their numbers, if there are any. */
+  avg?: number;
+}
+
+/**
+ * A page of EntityInstances, as found by {@link EntityDb#findAll} with {@link FindAllOptions}.
+ */
+export interface Page<T extends EntityInstance<T>> {
+  /** The EntityInstances on this page. */
+  items: T[];
+
+  /** The cursor to pass as {@link FindAllOptions#cursor} to find the next page, or undefined if there is none. */
+  cursor?: string;
+}
+
+/**
+ * Options for {@link EntityDb#clearEntity} and {@link EntityDb#clearAllEntities}.
+ */
+export interface ClearOptions {
+  /**
+   * Whether to delete everything in one atomic operation, or fail without deleting anything if there is too much for
+   * that. If false or undefined, everything is deleted in as many atomic operations as needed, so a failure part way
+   * may leave some of it in the db.
+   */
+  atomic?: boolean;
+
+  /** How many keys to delete per atomic operation, when not {@link ClearOptions#atomic}. Defaults to 1000. */
+  batchSize?: number;
+
+  /** Called after each atomic operation, with how many keys have been deleted so far. */
+  onProgress?: (progress: ClearProgress) => void;
+}
+
+/**
+ * How far {@link EntityDb#clearEntity} or {@link EntityDb#clearAllEntities} has come.
+ */
+export interface ClearProgress {
+  /** How many keys have been deleted so far. */
+  deleted: number;
+}
+
+/**
+ * What changed an EntityInstance, in a {@link ChangeEvent}.
+ */
+export type ChangeOperation = "save" | "delete" | "restore" | "clear";
+
+/**
+ * A change to an EntityInstance, as logged when {@link DbConfig#changelog} is enabled.
+ */
+export interface ChangeEvent<T extends EntityInstance<T>> {
+  /**
+   * Identifies the change, and orders it in the log: ids sort by the time of the change. Changes made at the same time
+   * by different EntityDbs are logged in any order, as they are not counted by one shared sequence number, which would
+   * make all writes conflict.
+   */
+  id: string;
+
+  /** When the change was made. */
+  timestamp: Date;
+
+  /** The id of the EntityDefinition of the changed EntityInstance. */
+  entityDefinitionId: EntityDefinitionId;
+
+  /** The primary key of the changed EntityInstance. */
+  primaryKey: Deno.KvKey;
+
+  /** What changed the EntityInstance. */
+  operation: ChangeOperation;
+
+  /** The EntityInstance before the change, or undefined if it did not exist. */
+  before?: T;
+
+  /** The EntityInstance after the change, or undefined if it no longer exists. Soft deleted EntityInstances still exist. */
+  after?: T;
+}
+
+/**
+ * Which changes to read with {@link EntityDb#changes}.
+ */
+export interface ChangesOptions {
+  /** Only read changes after the one with this {@link ChangeEvent#id}. Defaults to reading from the start of the log. */
+  since?: string;
+
+  /** The maximum number of changes to read. */
+  limit?: number;
+}
+
+/**
+ * The operations available inside {@link EntityDb#transaction}. They are all committed together, atomically.
+ *
+ * Each operation reads the db as it was before the transaction, so it does not see changes made by the other operations
+ * in the same transaction. Operations that would write the same key, like saving the same EntityInstance twice, or
+ * inserting two EntityInstances with the same unique property value, reject with a {@link TransactionConflictError},
+ * and so does the transaction. The operations run one after the other, in the order they were called.
+ */
+export interface Transaction<Ts extends EntityInstance<Ts>> {
+  /**
+   * Find an EntityInstance in the db. If it is modified before the transaction commits, the transaction is retried.
+   * @param entityDefinitionId The id of the EntityDefinition to find the EntityInstance for.
+   * @param uniquePropertyName The unique property to find the EntityInstance for, or a tuple of unique properties, like
+   * ["customerEmail", "invoiceNumber"].
+   * @param uniquePropertyValue The unique property value to find the EntityInstance for, or the values of the tuple.
+   */
+  find<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+  ): Promise<T | undefined>;
+
+  /**
+   * Save an EntityInstance, as part of the transaction.
+   * @param entityDefinitionId The id of the EntityDefinition to save the value to.
+   * @param entityInstance The EntityInstance to save.
+   * @param options Options for saving.
+   */
+  save<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+    options?: SaveOptions,
+  ): Promise<void>;
+
+  /**
+   * Insert a new EntityInstance, as part of the transaction.
+   * @param entityDefinitionId The id of the EntityDefinition to insert the value to.
+   * @param entityInstance The EntityInstance to insert.
+   * @param options Options for saving.
+   */
+  insert<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+    options?: SaveOptions,
+  ): Promise<void>;
+
+  /**
+   * Delete an EntityInstance, found by a unique property, as part of the transaction.
+   * @param entityDefinitionId The id of the EntityDefinition to delete the EntityInstance from.
+   * @param uniquePropertyName The unique property, or tuple of unique properties, to delete the EntityInstance for.
+   * @param uniquePropertyValue The unique property value, or the values of the tuple, to delete the EntityInstance for.
+   * @param options Options for deleting.
+   */
+  delete<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    uniquePropertyName: UniqueProperty<T>,
+    uniquePropertyValue: UniquePropertyValue<T>,
+    options?: DeleteOptions,
+  ): Promise<void>;
+
+  /**
+   * Delete an EntityInstance, as part of the transaction.
+   * @param entityDefinitionId The id of the EntityDefinition to delete the EntityInstance from.
+   * @param entityInstance The EntityInstance to delete.
+   * @param options Options for deleting.
+   */
+  deleteEntityInstance<T extends Ts>(
+    entityDefinitionId: ExtractEntityDefinitionId<T>,
+    entityInstance: T,
+    options?: DeleteOptions,
+  ): Promise<void>;
+}
+
 /**
  * A (possibly async) function that takes a Deno.Kv connection, and returns something of interest.
  */
@@ -0,0 +1,92 @@
+import { getUniquePropertyNames, isDefined, isKvKeyPart, Maybe } from "./fn.ts";
+import {
+  EntityDefinition,
+  EntityInstance,
+  EntityValidator,
+  StandardSchemaV1,
+  ValidationIssue,
+} from "./types.ts";
+
+/**
+ * Validate an EntityDefinition, for combinations of options that can not work together.
+ * @param entityDefinition The EntityDefinition to validate.
+ * @throws Error if the EntityDefinition is not valid.
+ */
+export function validateEntityDefinition<T extends EntityInstance<T>>(
+  entityDefinition: EntityDefinition<T>,
+): void {
+  // the key part of a tuple of unique properties joins their names with "+", which must not be that of another
+  const joinedName: Maybe<keyof T> = entityDefinition.uniqueProperties
+    .flatMap(getUniquePropertyNames)
+    .find((property: keyof T) => String(property).includes("+"));
+  if (isDefined(joinedName)) {
+    throw new Error(
+      `${entityDefinition.id} can not have the unique property ${
+        String(joinedName)
+      }, as its name contains a +.`,
+    );
+  }
+  if (entityDefinition.counters && isDefined(entityDefinition.expireIn)) {
+    // Deno.Kv does not tell when a key expires, so the counters would keep counting expired EntityInstances
+    throw new Error(
+      `${entityDefinition.id} can not have both counters and expireIn.`,
+    );
+  }
+}
+
+/**
+ * Validate an EntityInstance against its EntityDefinition.
+ *
+ * Checks that all unique and indexed properties are valid Deno.KvKeyPart's, except that indexed properties may be null,
+ * and then runs any {@link EntityDefinition#validate}.
+ * @param entityDefinition The EntityDefinition to validate against.
+ * @param entityInstance The EntityInstance to validate.
+ * @returns all issues found, or an empty array if the EntityInstance is valid.
+ */
+export async function validateEntityInstance<T extends EntityInstance<T>>(
+  entityDefinition: EntityDefinition<T>,
+  entityInstance: T,
+): Promise<ValidationIssue[]> {
+  const uniqueProperties: Set<keyof T> = new Set(
+    entityDefinition.uniqueProperties.flatMap(getUniquePropertyNames),
+  );
+  const keyProperties: Set<keyof T> = new Set([
+    ...uniqueProperties,
+    ...entityDefinition.indexedPropertyChains.flat(),
+  ]);
+  const issues: ValidationIssue[] = [...keyProperties]
+    .filter((property: keyof T) =>
+      !isKvKeyPart(entityInstance[property]) &&
+      (uniqueProperties.has(property) || entityInstance[property] !== null)
+    )
+    .map((property: keyof T) => ({
+      property,
+      message: "must be a string, number, bigint, boolean or Uint8Array",
+    }));
+  if (issues.length > 0 || !isDefined(entityDefinition.validate)) {
+    return issues;
+  }
+  return await runValidator(entityDefinition.validate, entityInstance);
+}
+
+async function runValidator<T>(
+  validator: EntityValidator<T>,
+  entityInstance: T,
+): Promise<ValidationIssue[]> {
+  if (!isStandardSchema(validator)) {
+    return await validator(entityInstance) ?? [];
+  }
+  const result = await validator["~standard"].validate(entityInstance);
+  return (result.issues ?? []).map(({ message, path }) => ({
+    property: path?.map((segment) =>
+      typeof segment === "object" ? segment.key : segment
+    ).join("."),
+    message,
+  }));
+}
+
+function isStandardSchema<T>(
+  validator: EntityValidator<T>,
+): validator is StandardSchemaV1<T> {
+  return typeof validator === "object" && "~standard" in validator;
+}
@@ -0,0 +1,164 @@
+import {
+  assertEquals as eq,
+  assertRejects,
+} from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { ChangeEvent, DbConfig, EntityDefinition } from "../src/types.ts";
+import {
+  ALICE,
+  BOB,
+  ENTITY_DEFINITION_INVOICE,
+  ENTITY_DEFINITION_PERSON,
+  Invoice,
+  Person,
+} from "./fixtures.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+function createConfig(changelog: boolean): DbConfig<Person | Invoice> {
+  return {
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    changelog,
+    entityDefinitions: {
+      person: ENTITY_DEFINITION_PERSON as EntityDefinition<Person>,
+      invoice: ENTITY_DEFINITION_INVOICE as EntityDefinition<Invoice>,
+    },
+  };
+}
+
+function createDb(changelog: boolean): EntityDb<Person | Invoice> {
+  return new EntityDb<Person | Invoice>(createConfig(changelog));
+}
+
+/** The parts of ChangeEvents that do not depend on when they were made. */
+function summarize(
+  changes: ChangeEvent<Person>[],
+): Omit<ChangeEvent<Person>, "id" | "timestamp">[] {
+  return changes.map(({ id: _, timestamp: __, ...change }) => change);
+}
+
+const alicePrimaryKey: Deno.KvKey = [...PREFIX, "person", "ssn", ALICE.ssn];
+const bobPrimaryKey: Deno.KvKey = [...PREFIX, "person", "ssn", BOB.ssn];
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("changelog", () => {
+  let db: EntityDb<Person | Invoice>;
+  beforeEach(() => {
+    db = createDb(true);
+  });
+
+  it("should log saves and deletes, in order", async () => {
+    const alicia: Person = { ...ALICE, firstname: "Alicia" };
+    await db.save("person", ALICE);
+    await db.save("person", alicia);
+    await db.delete("person", "email", ALICE.email);
+    await db.deleteEntityInstance("person", BOB);
+
+    const changes: ChangeEvent<Person>[] = await db.changes<Person>();
+    eq(summarize(changes), [
+      {
+        entityDefinitionId: "person",
+        primaryKey: alicePrimaryKey,
+        operation: "save",
+        before: undefined,
+        after: ALICE,
+      },
+      {
+        entityDefinitionId: "person",
+        primaryKey: alicePrimaryKey,
+        operation: "save",
+        before: ALICE,
+        after: alicia,
+      },
+      {
+        entityDefinitionId: "person",
+        primaryKey: alicePrimaryKey,
+        operation: "delete",
+        before: alicia,
+      },
+    ]);
+    eq(changes.every(({ timestamp }) => timestamp instanceof Date), true);
+    eq(changes.map(({ id }) => id), changes.map(({ id }) => id).toSorted());
+  });
+  it("should read changes since an id", async () => {
+    await db.save("person", ALICE);
+    await db.save("person", BOB);
+    await db.delete("person", "ssn", ALICE.ssn);
+    const ids: string[] = (await db.changes()).map(({ id }) => id);
+
+    eq((await db.changes({ since: ids[0] })).map(({ id }) => id), [
+      ids[1],
+      ids[2],
+    ]);
+    eq(
+      (await db.changes({ since: ids[0], limit: 1 })).map(({ id }) => id),
+      [ids[1]],
+    );
+    eq(await db.changes({ since: ids[2] }), []);
+  });
+  it("should not make concurrent saves of different EntityInstances conflict", async () => {
+    const people: Person[] = Array.from({ length: 50 }, (_, i) => ({
+      ...ALICE,
+      ssn: `ssn-${i}`,
+      email: `${i}@example.com`,
+    }));
+    // one shared connection, as each connection of its own would have to wait for the lock of the db file
+    await using shared = await EntityDb.open(createConfig(true));
+    await Promise.all(people.map((person) => shared.save("person", person)));
+
+    eq((await db.changes()).length, 50);
+  });
+  it("should log the changes of a transaction together", async () => {
+    await db.transaction(async (tx) => {
+      await tx.save("person", ALICE);
+      await tx.save("person", BOB);
+    });
+    await assertRejects(() =>
+      db.transaction(async (tx) => {
+        await tx.delete("person", "ssn", ALICE.ssn);
+        await tx.insert("person", BOB);
+      })
+    );
+
+    eq(
+      summarize(await db.changes<Person>()).map(({ primaryKey }) => primaryKey),
+      [alicePrimaryKey, bobPrimaryKey],
+    );
+  });
+  it("should log clearing, and keep the log", async () => {
+    await db.save("person", ALICE);
+    await db.save("invoice", {
+      invoiceNumber: "1",
+      customerEmail: ALICE.email,
+    });
+    await db.clearAllEntities({ batchSize: 3 });
+    const ids: string[] = (await db.changes()).map(({ id }) => id);
+
+    eq(
+      (await db.changes({ since: ids[1] })).map((
+        { operation, entityDefinitionId },
+      ) => [
+        operation,
+        entityDefinitionId,
+      ]),
+      [["clear", "invoice"], ["clear", "person"]],
+    );
+    eq((await db.changes<Person>({ since: ids[2] }))[0].before, ALICE);
+  });
+  it("should not log anything, unless enabled", async () => {
+    const withoutChangelog: EntityDb<Person | Invoice> = createDb(false);
+    await withoutChangelog.save("person", ALICE);
+    await withoutChangelog.delete("person", "ssn", ALICE.ssn);
+    eq(await db.changes(), []);
+  });
+});
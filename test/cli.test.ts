@@ -0,0 +1,151 @@
+import { assertEquals as eq } from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import {
+  EntityRecord,
+  exportEntities,
+  fromNdjsonLine,
+  importEntities,
+  parseArgs,
+  toNdjsonLine,
+} from "../src/cli.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { asArray, Maybe } from "../src/fn.ts";
+import { DbConfig, EntityDefinition } from "../src/types.ts";
+import {
+  ALICE,
+  BOB,
+  ENTITY_DEFINITION_INVOICE,
+  ENTITY_DEFINITION_PERSON,
+  Invoice,
+  Person,
+} from "./fixtures.ts";
+import { assertFindAll } from "./assert-find.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+const INVOICE: Invoice = { invoiceNumber: "1", customerEmail: ALICE.email };
+
+function createConfig(
+  name: string,
+  timestamps = false,
+): DbConfig<Person | Invoice> {
+  return {
+    prefix: [...PREFIX, name],
+    dbFilePath: "./test.db",
+    entityDefinitions: {
+      person: {
+        ...ENTITY_DEFINITION_PERSON,
+        timestamps,
+      } as EntityDefinition<Person>,
+      invoice: ENTITY_DEFINITION_INVOICE as EntityDefinition<Invoice>,
+    },
+  };
+}
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("cli", () => {
+  it("should parse arguments", () => {
+    eq(
+      parseArgs(["import", "--config", "./config.ts", "--prefix", '["app"]']),
+      {
+        command: "import",
+        configModule: "./config.ts",
+        dbFilePath: undefined,
+        prefix: ["app"],
+      },
+    );
+  });
+  it("should keep values that JSON has no notation for", () => {
+    const entityInstance = {
+      at: new Date("2024-01-02T03:04:05.678Z"),
+      big: 12345678901234567890n,
+      bytes: new Uint8Array([1, 2, 3]),
+      map: new Map([["a", new Set([1])]]),
+    };
+    const record: EntityRecord<typeof entityInstance> = {
+      entityDefinitionId: "thing",
+      entityInstance,
+    };
+    const line: string = toNdjsonLine(record);
+
+    eq(line.includes("\n"), false);
+    eq(fromNdjsonLine<typeof entityInstance>(line), record);
+  });
+  it("should keep properties whose names start with $", () => {
+    const entityInstance = {
+      notADate: { $date: "2024-01-02T03:04:05.678Z" },
+      notASet: { $set: [1] },
+      escaped: { $$map: [], $price: 1 },
+    };
+    const record: EntityRecord<typeof entityInstance> = {
+      entityDefinitionId: "thing",
+      entityInstance,
+    };
+
+    eq(fromNdjsonLine<typeof entityInstance>(toNdjsonLine(record)), record);
+  });
+  it("should export one line per EntityInstance, and import them", async () => {
+    const sourceConfig: DbConfig<Person | Invoice> = createConfig("source");
+    const source = new EntityDb<Person | Invoice>(sourceConfig);
+    await source.save("person", ALICE);
+    await source.save("person", BOB);
+    await source.save("invoice", INVOICE);
+
+    const lines: string[] = await asArray(
+      exportEntities(source, sourceConfig),
+    );
+    eq(lines.length, 3);
+
+    const targetConfig: DbConfig<Person | Invoice> = createConfig("target");
+    const target = new EntityDb<Person | Invoice>(targetConfig);
+    eq(await importEntities(target, targetConfig, [...lines, ""]), 3);
+
+    await assertFindAll(target, [ALICE, BOB], ["person", "ssn"]);
+    await assertFindAll(target, [ALICE, BOB], ["person", [["country", "US"]]]);
+    await assertFindAll(target, [INVOICE], ["invoice", "customerEmail"]);
+  });
+  it("should keep the timestamps and the expiry of the exported EntityInstances", async () => {
+    const sourceConfig: DbConfig<Person | Invoice> = createConfig(
+      "source",
+      true,
+    );
+    const source = new EntityDb<Person | Invoice>(sourceConfig);
+    await source.save("person", ALICE, { expireIn: 60_000 });
+    await source.save("person", BOB);
+    const saved: Person[] = [
+      (await source.find<Person>("person", "ssn", ALICE.ssn))!,
+      (await source.find<Person>("person", "ssn", BOB.ssn))!,
+    ];
+    const expiry: Maybe<Date> = await source.getExpiry("person", ALICE);
+
+    const lines: string[] = await asArray(
+      exportEntities(source, sourceConfig),
+    );
+    // so that timestamps stamped by the import would differ
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const targetConfig: DbConfig<Person | Invoice> = createConfig(
+      "target",
+      true,
+    );
+    const target = new EntityDb<Person | Invoice>(targetConfig);
+    eq(await importEntities(target, targetConfig, lines), 2);
+
+    eq(await target.find<Person>("person", "ssn", ALICE.ssn), saved[0]);
+    eq(await target.find<Person>("person", "ssn", BOB.ssn), saved[1]);
+    // the expireIn of the import is what is left of it, so the expiry may be a few milliseconds later
+    const importedExpiry: Maybe<Date> = await target.getExpiry(
+      "person",
+      ALICE,
+    );
+    eq(importedExpiry!.getTime() - expiry!.getTime() < 100, true);
+    eq(await target.getExpiry("person", BOB), undefined);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  assertEquals as eq,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { UniqueConstraintViolationError } from "../src/errors.ts";
+import { EntityDefinition, Explanation } from "../src/types.ts";
+import { Invoice } from "./fixtures.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+const ENTITY_DEFINITION_INVOICE: EntityDefinition<Invoice> = {
+  id: "invoice",
+  uniqueProperties: [["customerEmail", "invoiceNumber"]],
+  indexedPropertyChains: [
+    ["customerEmail"],
+  ],
+  softDelete: true,
+  _exampleEntityInstance: {} as Invoice,
+};
+
+const ALICE_1: Invoice = {
+  customerEmail: "alice@example.com",
+  invoiceNumber: "1",
+};
+const ALICE_2: Invoice = {
+  customerEmail: "alice@example.com",
+  invoiceNumber: "2",
+};
+const BOB_1: Invoice = {
+  customerEmail: "bob@example.com",
+  invoiceNumber: "1",
+};
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("compound unique properties", () => {
+  const db = new EntityDb<Invoice>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    entityDefinitions: {
+      invoice: ENTITY_DEFINITION_INVOICE,
+    },
+  });
+
+  beforeEach(async () => {
+    for (const invoice of [ALICE_1, ALICE_2, BOB_1]) {
+      await db.save("invoice", invoice);
+    }
+  });
+
+  it("should find an EntityInstance by the values of a tuple", async () => {
+    eq(
+      await db.find("invoice", ["customerEmail", "invoiceNumber"], [
+        "bob@example.com",
+        "1",
+      ]),
+      BOB_1,
+    );
+    eq(
+      await db.find("invoice", ["customerEmail", "invoiceNumber"], [
+        "bob@example.com",
+        "2",
+      ]),
+      undefined,
+    );
+    await assertRejects(
+      () =>
+        db.find("invoice", ["customerEmail", "invoiceNumber"], [
+          "bob@example.com",
+        ]),
+      Error,
+      "Expected 2 values for customerEmail+invoiceNumber.",
+    );
+  });
+  it("should list the EntityInstances once, apart from a chain with the same property", async () => {
+    eq(
+      await db.findAll("invoice", [["customerEmail", "alice@example.com"]]),
+      [ALICE_1, ALICE_2],
+    );
+    eq(await db.count("invoice"), 3);
+    eq(await db.verify("invoice"), []);
+  });
+  it("should refuse another EntityInstance with the same values", async () => {
+    const error: UniqueConstraintViolationError = await assertRejects(
+      () => db.insert("invoice", { ...ALICE_1 }),
+      UniqueConstraintViolationError,
+    );
+    eq(error.uniquePropertyName, ["customerEmail", "invoiceNumber"]);
+    eq(error.uniquePropertyValue, ["alice@example.com", "1"]);
+  });
+  it("should delete and restore by the values of a tuple", async () => {
+    const tuple: Array<keyof Invoice> = ["customerEmail", "invoiceNumber"];
+    await db.delete("invoice", tuple, ["alice@example.com", "1"]);
+    eq(await db.find("invoice", tuple, ["alice@example.com", "1"]), undefined);
+
+    await db.restore("invoice", tuple, ["alice@example.com", "1"]);
+    eq(await db.find("invoice", tuple, ["alice@example.com", "1"]), ALICE_1);
+
+    await db.delete("invoice", tuple, ["alice@example.com", "1"], {
+      permanent: true,
+    });
+    eq(await db.count("invoice", undefined, { includeDeleted: true }), 2);
+  });
+  it("should look up a tuple in a query", async () => {
+    const explanation: Explanation = await db.query<Invoice>("invoice")
+      .where("invoiceNumber", "=", "1")
+      .where("customerEmail", "=", "bob@example.com")
+      .explain();
+
+    eq(explanation.key, [
+      ...PREFIX,
+      "invoice",
+      "customerEmail+invoiceNumber",
+      "bob@example.com",
+      "1",
+    ]);
+    eq(explanation.entitiesReturned, 1);
+  });
+  it("should refuse a unique property with the name of a tuple", () => {
+    assertThrows(
+      () =>
+        new EntityDb<Record<string, string>>({
+          entityDefinitions: {
+            thing: {
+              id: "thing",
+              uniqueProperties: ["a+b", ["a", "b"]],
+              indexedPropertyChains: [],
+              _exampleEntityInstance: {},
+            },
+          },
+        }),
+      Error,
+      "thing can not have the unique property a+b, as its name contains a +.",
+    );
+  });
+});
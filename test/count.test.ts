@@ -0,0 +1,222 @@
+import {
+  assertEquals as eq,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { asArray } from "../src/fn.ts";
+import { EntityDefinition, Page, PropertyLookup } from "../src/types.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+interface Order {
+  orderNumber: string;
+  customerEmail: string;
+  amount: number;
+  deletedAt?: Date;
+}
+
+const ENTITY_DEFINITION_ORDER: EntityDefinition<Order> = {
+  id: "order",
+  uniqueProperties: ["orderNumber"],
+  indexedPropertyChains: [
+    ["customerEmail", "amount"],
+  ],
+  softDelete: true,
+  _exampleEntityInstance: {} as Order,
+};
+
+const ORDERS: Order[] = [
+  { orderNumber: "1", customerEmail: "alice@example.com", amount: 100 },
+  { orderNumber: "2", customerEmail: "alice@example.com", amount: 250 },
+  { orderNumber: "3", customerEmail: "bob@example.com", amount: 30 },
+];
+
+function createDb(counters: boolean): EntityDb<Order> {
+  return new EntityDb<Order>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    entityDefinitions: {
+      order: { ...ENTITY_DEFINITION_ORDER, counters },
+    },
+  });
+}
+
+/** Delete the keys of the EntityInstances, but not the system keys where the counters are. */
+async function deleteEntityKeys(): Promise<void> {
+  const kv: Deno.Kv = await Deno.openKv("./test.db");
+  try {
+    for await (const { key } of kv.list({ prefix: [...PREFIX, "order"] })) {
+      await kv.delete(key);
+    }
+  } finally {
+    kv.close();
+  }
+}
+
+/** Count the ways count can be asked for Orders, by alice, and by alice for at least 200. */
+async function countAll(db: EntityDb<Order>): Promise<number[]> {
+  return [
+    await db.count("order"),
+    await db.count("order", [["customerEmail", "alice@example.com"]]),
+    await db.count("order", [
+      ["customerEmail", "alice@example.com"],
+      ["amount", { gte: 200 }],
+    ]),
+  ];
+}
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("count", () => {
+  const db = createDb(false);
+
+  beforeEach(async () => {
+    for (const order of ORDERS) {
+      await db.save("order", order);
+    }
+  });
+
+  it("should count by listing", async () => {
+    eq(await countAll(db), [3, 2, 1]);
+    eq(await db.count("order", "customerEmail"), 3);
+  });
+  it("should leave out soft deleted EntityInstances, unless asked not to", async () => {
+    await db.delete("order", "orderNumber", "1");
+
+    eq(await countAll(db), [2, 1, 1]);
+    eq(await db.count("order", undefined, { includeDeleted: true }), 3);
+  });
+  it("should aggregate a numeric property", async () => {
+    eq(await db.aggregate("order", "amount"), {
+      count: 3,
+      sum: 380,
+      min: 30,
+      max: 250,
+      avg: 380 / 3,
+    });
+    eq(
+      await db.aggregate("order", "amount", [
+        ["customerEmail", "carol@example.com"],
+      ]),
+      { count: 0, sum: 0 },
+    );
+  });
+  it("should count each EntityInstance once, when chains start with the same property", async () => {
+    const sharing = new EntityDb<Order>({
+      prefix: PREFIX,
+      dbFilePath: "./test.db",
+      entityDefinitions: {
+        order: {
+          ...ENTITY_DEFINITION_ORDER,
+          indexedPropertyChains: [
+            ["customerEmail", "amount"],
+            ["customerEmail", "orderNumber"],
+          ],
+        },
+      },
+    });
+    await sharing.reindex("order");
+    const byAlice: PropertyLookup<Order> = [[
+      "customerEmail",
+      "alice@example.com",
+    ]];
+
+    eq(await sharing.count("order", byAlice), 2);
+    eq((await sharing.aggregate("order", "amount", byAlice)).sum, 350);
+    eq(await sharing.findAll("order", byAlice), ORDERS.slice(0, 2));
+    eq(await asArray(sharing.iterate("order", byAlice, { limit: 1 })), [
+      ORDERS[0],
+    ]);
+    const page: Page<Order> = await sharing.findAll("order", byAlice, {
+      limit: 1,
+    });
+    eq(page.items, [ORDERS[0]]);
+    eq(
+      (await sharing.findAll("order", byAlice, { cursor: page.cursor }))
+        .items,
+      [ORDERS[1]],
+    );
+  });
+});
+
+describe("counters", () => {
+  const db = createDb(true);
+
+  beforeEach(async () => {
+    for (const order of ORDERS) {
+      await db.save("order", order);
+    }
+  });
+
+  it("should read counters, rather than list", async () => {
+    await deleteEntityKeys();
+
+    // a range has no counter, so it is still listed
+    eq(await countAll(db), [3, 2, 0]);
+  });
+  it("should keep counters up to date", async () => {
+    await db.save("order", {
+      ...ORDERS[2],
+      customerEmail: "alice@example.com",
+    });
+    eq(await countAll(db), [3, 3, 1]);
+
+    await db.delete("order", "orderNumber", "1");
+    eq(await countAll(db), [2, 2, 1]);
+
+    await db.restore("order", "orderNumber", "1");
+    eq(await countAll(db), [3, 3, 1]);
+
+    await db.delete("order", "orderNumber", "2", { permanent: true });
+    eq(await countAll(db), [2, 2, 0]);
+    eq(await db.count("order", [["customerEmail", "bob@example.com"]]), 0);
+  });
+  it("should reset counters when clearing", async () => {
+    await db.clearEntity("order");
+    eq(await countAll(db), [0, 0, 0]);
+
+    await db.save("order", ORDERS[0]);
+    eq(await countAll(db), [1, 1, 0]);
+  });
+  it("should compute counters when migrating", async () => {
+    await deleteAll(PREFIX);
+    const withoutCounters: EntityDb<Order> = createDb(false);
+    for (const order of ORDERS) {
+      await withoutCounters.save("order", order);
+    }
+    await withoutCounters.migrate();
+
+    eq(
+      (await db.getSchemaChanges()).map(({ current }) => current.counters),
+      [true],
+    );
+    await db.migrate();
+    eq(await countAll(db), [3, 2, 1]);
+  });
+  it("should refuse to let EntityInstances with counters expire", async () => {
+    assertThrows(
+      () =>
+        new EntityDb<Order>({
+          entityDefinitions: {
+            order: { ...ENTITY_DEFINITION_ORDER, counters: true, expireIn: 1 },
+          },
+        }),
+      Error,
+      "order can not have both counters and expireIn.",
+    );
+    await assertRejects(
+      () => db.save("order", ORDERS[0], { expireIn: 1000 }),
+      Error,
+      "order has counters, so it can not be saved with expireIn.",
+    );
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Delete all keys of the test db under a prefix, to start and end each test with an empty db.
+ * @param prefix The prefix of the EntityDb under test, which is unique to each test file.
+ */
+export async function deleteAll(prefix: Deno.KvKey): Promise<void> {
+  const kv: Deno.Kv = await Deno.openKv("./test.db");
+  try {
+    for await (const { key } of kv.list({ prefix })) {
+      await kv.delete(key);
+    }
+  } finally {
+    kv.close();
+  }
+}
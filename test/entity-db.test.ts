@@ -1,4 +1,7 @@
-import { assertEquals as eq } from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  assertEquals as eq,
+  assertRejects,
+} from "https://deno.land/std@0.221.0/testing/asserts.ts";
 import {
   beforeAll,
   beforeEach,
@@ -6,8 +9,21 @@ import {
   it,
 } from "https://deno.land/std@0.221.0/testing/bdd.ts";
 import { EntityDb } from "../src/entity-db.ts";
-import { Maybe } from "../src/fn.ts";
-import { EntityDefinition } from "../src/types.ts";
+import {
+  ConcurrentModificationError,
+  TransactionConflictError,
+  UniqueConstraintViolationError,
+  ValidationError,
+} from "../src/errors.ts";
+import { asArray, Maybe } from "../src/fn.ts";
+import {
+  ClearProgress,
+  DbConfig,
+  EntityDefinition,
+  Page,
+  PropertyLookupPair,
+  Versioned,
+} from "../src/types.ts";
 import {
   ALICE,
   BOB,
@@ -64,6 +80,356 @@ describe("db", () => {
       );
       eq(actual, invoice);
     });
+    it("should remove stale keys when a Person is re-saved with changed properties", async () => {
+      await db.save("person", ALICE);
+      const renamedAlice: Person = {
+        ...ALICE,
+        lastname: "Jones",
+        email: "alice.jones@example.com",
+      };
+      await db.save("person", renamedAlice);
+
+      await assertFind(db, renamedAlice, ["person", "ssn", ALICE.ssn]);
+      await assertFind(db, undefined, ["person", "email", ALICE.email]);
+      await assertFind(db, renamedAlice, [
+        "person",
+        "email",
+        renamedAlice.email,
+      ]);
+      await assertFindAll(db, [], [
+        "person",
+        [["lastname", ALICE.lastname]],
+      ]);
+      await assertFindAll(db, [renamedAlice], [
+        "person",
+        [["lastname", renamedAlice.lastname]],
+      ]);
+      await assertFindAll(db, [renamedAlice], [
+        "person",
+        [["country", ALICE.country]],
+      ]);
+    });
+  });
+  describe("unique constraints", () => {
+    it("should refuse to save a Person with another Person's email", async () => {
+      await db.save("person", ALICE);
+      const error: UniqueConstraintViolationError = await assertRejects(
+        () => db.save("person", { ...BOB, email: ALICE.email }),
+        UniqueConstraintViolationError,
+      );
+      eq(error.entityDefinitionId, "person");
+      eq(error.uniquePropertyName, "email");
+      eq(error.uniquePropertyValue, ALICE.email);
+
+      await assertFind(db, ALICE, ["person", "email", ALICE.email]);
+      await assertFind(db, undefined, ["person", "ssn", BOB.ssn]);
+    });
+    it("should let a Person keep its own email when re-saved", async () => {
+      await db.save("person", ALICE);
+      const movedAlice: Person = { ...ALICE, zipcode: "54321" };
+      await db.save("person", movedAlice);
+      await assertFind(db, movedAlice, ["person", "email", ALICE.email]);
+    });
+  });
+  describe("validation", () => {
+    const validatedDb = (
+      validate: EntityDefinition<Person>["validate"],
+    ): EntityDb<Person | Invoice> =>
+      new EntityDb<Person | Invoice>({
+        prefix: TEST_PREFIX,
+        dbFilePath: "./test.db",
+        entityDefinitions: {
+          person: { ...ENTITY_DEFINITION_PERSON, validate },
+          invoice: ENTITY_DEFINITION_INVOICE as EntityDefinition<Invoice>,
+        },
+      });
+
+    it("should refuse to save a Person without an ssn", async () => {
+      const { ssn: _, ...personWithoutSsn } = ALICE;
+      const error: ValidationError = await assertRejects(
+        () => db.save("person", personWithoutSsn as Person),
+        ValidationError,
+      );
+      eq(error.entityDefinitionId, "person");
+      eq(error.issues.map(({ property }) => property), ["ssn"]);
+      await assertDbIs(db, []);
+    });
+    it("should run a validator function", async () => {
+      const strictDb = validatedDb((person: Person) =>
+        /^\d{5}$/.test(person.zipcode)
+          ? []
+          : [{ property: "zipcode", message: "must be 5 digits" }]
+      );
+      await strictDb.save("person", ALICE);
+      const error: ValidationError = await assertRejects(
+        () => strictDb.save("person", { ...BOB, zipcode: "1234" }),
+        ValidationError,
+      );
+      eq(error.issues, [{ property: "zipcode", message: "must be 5 digits" }]);
+    });
+    it("should run a Standard Schema validator", async () => {
+      const strictDb = validatedDb({
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: (value: unknown) =>
+            (value as Person).email.endsWith("@example.com")
+              ? { value: value as Person }
+              : {
+                issues: [{ message: "wrong domain", path: [{ key: "email" }] }],
+              },
+        },
+      });
+      await strictDb.save("person", ALICE);
+      const error: ValidationError = await assertRejects(
+        () => strictDb.save("person", { ...BOB, email: "bob@example.org" }),
+        ValidationError,
+      );
+      eq(error.issues, [{ property: "email", message: "wrong domain" }]);
+    });
+  });
+  describe("insert", () => {
+    it("should insert a new Person", async () => {
+      await db.insert("person", ALICE);
+      await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+    });
+    it("should refuse to insert an existing Person", async () => {
+      await db.insert("person", ALICE);
+      await assertRejects(
+        () => db.insert("person", { ...ALICE, firstname: "Alicia" }),
+        UniqueConstraintViolationError,
+      );
+      await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+    });
+  });
+  describe("upsert", () => {
+    it("should insert, then update, a Person", async () => {
+      await db.upsert("person", ALICE);
+      await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+      const renamedAlice: Person = { ...ALICE, firstname: "Alicia" };
+      await db.upsert("person", renamedAlice);
+      await assertFind(db, renamedAlice, ["person", "ssn", ALICE.ssn]);
+    });
+  });
+  describe("versionstamps", () => {
+    it("should find a Person with its versionstamp", async () => {
+      await db.save("person", ALICE);
+      const actual: Maybe<Versioned<Person>> = await db.findWithVersion(
+        "person",
+        "email",
+        ALICE.email,
+      );
+      eq(actual?.value, ALICE);
+      eq(typeof actual?.versionstamp, "string");
+    });
+    it("should save a Person with the expected versionstamp", async () => {
+      await db.save("person", ALICE);
+      const existing = await db.findWithVersion("person", "ssn", ALICE.ssn);
+      const renamedAlice: Person = { ...ALICE, firstname: "Alicia" };
+      await db.save("person", renamedAlice, {
+        expectedVersionstamp: existing?.versionstamp,
+      });
+      await assertFind(db, renamedAlice, ["person", "ssn", ALICE.ssn]);
+    });
+    it("should refuse to save a Person with an outdated versionstamp", async () => {
+      await db.save("person", ALICE);
+      const existing = await db.findWithVersion("person", "ssn", ALICE.ssn);
+      await db.save("person", { ...ALICE, firstname: "Alicia" });
+      await assertRejects(
+        () =>
+          db.save("person", { ...ALICE, firstname: "Ali" }, {
+            expectedVersionstamp: existing?.versionstamp,
+          }),
+        ConcurrentModificationError,
+      );
+      await assertFind(db, { ...ALICE, firstname: "Alicia" }, [
+        "person",
+        "ssn",
+        ALICE.ssn,
+      ]);
+    });
+    it("should refuse to save a new Person when expecting null", async () => {
+      await db.save("person", ALICE);
+      await assertRejects(
+        () => db.save("person", ALICE, { expectedVersionstamp: null }),
+        ConcurrentModificationError,
+      );
+    });
+  });
+  describe("update", () => {
+    it("should update a Person", async () => {
+      await db.save("person", ALICE);
+      const actual: Maybe<Person> = await db.update(
+        "person",
+        "email",
+        ALICE.email,
+        (person: Person) => ({ ...person, lastname: "Jones" }),
+      );
+      eq(actual, { ...ALICE, lastname: "Jones" });
+      await assertFindAll(db, [{ ...ALICE, lastname: "Jones" }], [
+        "person",
+        [["lastname", "Jones"]],
+      ]);
+    });
+    it("should return undefined for a missing Person", async () => {
+      const actual: Maybe<Person> = await db.update(
+        "person",
+        "ssn",
+        ALICE.ssn,
+        (person: Person) => person,
+      );
+      eq(actual, undefined);
+    });
+    it("should retry when the Person was modified concurrently", async () => {
+      await db.save("person", ALICE);
+      let calls = 0;
+      await db.update("person", "ssn", ALICE.ssn, async (person: Person) => {
+        calls++;
+        if (calls === 1) {
+          await db.save("person", { ...person, lastname: "Jones" });
+        }
+        return { ...person, firstname: "Alicia" };
+      });
+      eq(calls, 2);
+      await assertFind(
+        db,
+        { ...ALICE, firstname: "Alicia", lastname: "Jones" },
+        [
+          "person",
+          "ssn",
+          ALICE.ssn,
+        ],
+      );
+    });
+  });
+  describe("transaction", () => {
+    const invoice: Invoice = {
+      invoiceNumber: "123",
+      customerEmail: ALICE.email,
+    };
+
+    it("should save a Person and an Invoice together", async () => {
+      await db.transaction(async (tx) => {
+        await tx.save("person", ALICE);
+        await tx.save("invoice", invoice);
+      });
+      await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+      await assertFind(db, invoice, ["invoice", "invoiceNumber", "123"]);
+    });
+    it("should include operations that were not awaited", async () => {
+      await db.transaction((tx) => {
+        tx.save("person", ALICE);
+        tx.save("invoice", invoice);
+      });
+      await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+      await assertFind(db, invoice, ["invoice", "invoiceNumber", "123"]);
+    });
+    it("should delete a Person and their Invoices together", async () => {
+      await db.save("person", ALICE);
+      await db.save("invoice", invoice);
+      await db.save("person", BOB);
+      const invoices: Invoice[] = await db.findAll("invoice", [[
+        "customerEmail",
+        ALICE.email,
+      ]]);
+      await db.transaction(async (tx) => {
+        await tx.delete("person", "email", ALICE.email);
+        for (const invoice of invoices) {
+          await tx.deleteEntityInstance("invoice", invoice);
+        }
+      });
+      await assertFindAll(db, [BOB], ["person", "ssn"]);
+      await assertFindAll(db, [], ["invoice"]);
+    });
+    it("should commit nothing if any operation fails", async () => {
+      await db.save("person", ALICE);
+      await assertRejects(
+        () =>
+          db.transaction(async (tx) => {
+            await tx.save("invoice", invoice);
+            await tx.save("person", { ...BOB, email: ALICE.email });
+          }),
+        UniqueConstraintViolationError,
+      );
+      await assertFind(db, undefined, ["invoice", "invoiceNumber", "123"]);
+    });
+    it("should settle operations that were not awaited, when it throws", async () => {
+      await db.save("person", ALICE);
+      await assertRejects(
+        () =>
+          db.transaction((tx) => {
+            tx.save("invoice", invoice);
+            // rejects with a UniqueConstraintViolationError, after fn has thrown
+            tx.save("person", { ...BOB, email: ALICE.email });
+            throw new Error("fn failed");
+          }),
+        Error,
+        "fn failed",
+      );
+      await assertFind(db, undefined, ["invoice", "invoiceNumber", "123"]);
+    });
+    it("should retry when something it read was modified", async () => {
+      await db.save("person", ALICE);
+      let calls = 0;
+      const result: string = await db.transaction(async (tx) => {
+        calls++;
+        const person: Maybe<Person> = await tx.find(
+          "person",
+          "ssn",
+          ALICE.ssn,
+        );
+        if (calls === 1) {
+          await db.save("person", { ...ALICE, email: "alice@example.org" });
+        }
+        await tx.save("invoice", { ...invoice, customerEmail: person!.email });
+        return person!.email;
+      });
+      eq(calls, 2);
+      eq(result, "alice@example.org");
+      await assertFind(db, { ...invoice, customerEmail: "alice@example.org" }, [
+        "invoice",
+        "invoiceNumber",
+        "123",
+      ]);
+    });
+    it("should refuse to insert two EntityInstances with the same unique property value", async () => {
+      await assertRejects(
+        () =>
+          db.transaction(async (tx) => {
+            await tx.insert("person", ALICE);
+            await tx.insert("person", { ...BOB, email: ALICE.email });
+          }),
+        TransactionConflictError,
+      );
+      await assertFindAll(db, [], ["person", "ssn"]);
+      eq(await db.verify(), []);
+    });
+    it("should refuse to save the same EntityInstance twice", async () => {
+      await db.save("person", ALICE);
+      await assertRejects(
+        () =>
+          db.transaction((tx) => {
+            tx.save("person", { ...ALICE, lastname: "Brown" });
+            tx.save("person", { ...ALICE, lastname: "Jones" });
+          }),
+        TransactionConflictError,
+      );
+      await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+      eq(await db.verify(), []);
+    });
+    it("should refuse to delete an EntityInstance that it saved", async () => {
+      await db.save("person", ALICE);
+      await assertRejects(
+        () =>
+          db.transaction(async (tx) => {
+            await tx.save("person", { ...ALICE, email: "alice@example.org" });
+            await tx.delete("person", "ssn", ALICE.ssn);
+          }),
+        TransactionConflictError,
+      );
+      await assertFind(db, ALICE, ["person", "email", ALICE.email]);
+      eq(await db.verify(), []);
+    });
   });
   describe("findAll", () => {
     it("should find all Persons", async () => {
@@ -117,6 +483,165 @@ describe("db", () => {
       eq(actual, [invoice1, invoice2]);
     });
   });
+  describe("findAll with options", () => {
+    const invoices: Invoice[] = ["1", "2", "3"].map((invoiceNumber) => ({
+      invoiceNumber,
+      customerEmail: ALICE.email,
+    }));
+    const lookup: PropertyLookupPair<Invoice>[] = [[
+      "customerEmail",
+      ALICE.email,
+    ]];
+
+    beforeEach(async () => {
+      for (const invoice of invoices) {
+        await db.save("invoice", invoice);
+      }
+    });
+
+    it("should find Invoices page by page", async () => {
+      const page1: Page<Invoice> = await db.findAll("invoice", lookup, {
+        limit: 2,
+      });
+      eq(page1.items, [invoices[0], invoices[1]]);
+
+      const page2: Page<Invoice> = await db.findAll("invoice", lookup, {
+        limit: 2,
+        cursor: page1.cursor,
+      });
+      eq(page2, { items: [invoices[2]], cursor: undefined });
+    });
+    it("should not return a cursor when the limit is not exceeded", async () => {
+      const page: Page<Invoice> = await db.findAll("invoice", lookup, {
+        limit: 3,
+      });
+      eq(page, { items: invoices, cursor: undefined });
+    });
+    it("should find Invoices in reverse", async () => {
+      const page: Page<Invoice> = await db.findAll("invoice", lookup, {
+        reverse: true,
+      });
+      eq(page, { items: invoices.toReversed(), cursor: undefined });
+    });
+  });
+  describe("findAll with ranges", () => {
+    const CAROL: Person = {
+      ...BOB,
+      ssn: "111-22-3333",
+      email: "carol@example.com",
+      firstname: "Carol",
+      zipcode: "23456",
+    };
+    const DAVE: Person = {
+      ...BOB,
+      ssn: "444-55-6666",
+      email: "dave@example.com",
+      firstname: "Dave",
+      zipcode: "34567",
+    };
+
+    beforeEach(async () => {
+      for (const person of [ALICE, BOB, CAROL, DAVE]) {
+        await db.save("person", person);
+      }
+    });
+
+    it("should find Persons with zipcode >= and <", async () => {
+      await assertFindAll(db, [ALICE, BOB, CAROL], ["person", [
+        ["country", "US"],
+        ["zipcode", { gte: "12345", lt: "34567" }],
+      ]]);
+    });
+    it("should find Persons with zipcode > and <=", async () => {
+      await assertFindAll(db, [CAROL, DAVE], ["person", [
+        ["country", "US"],
+        ["zipcode", { gt: "12345", lte: "34567" }],
+      ]]);
+    });
+    it("should find Persons with only a lower bound", async () => {
+      await assertFindAll(db, [DAVE], ["person", [
+        ["country", "US"],
+        ["zipcode", { gt: "23456" }],
+      ]]);
+    });
+    it("should find Persons with only an upper bound", async () => {
+      await assertFindAll(db, [BOB, CAROL], ["person", [
+        ["lastname", "Jones"],
+        ["firstname", { lte: "Carol" }],
+      ]]);
+    });
+    it("should find a page of Persons in a range, in reverse", async () => {
+      const page: Page<Person> = await db.findAll("person", [
+        ["country", "US"],
+        ["zipcode", { gte: "12345" }],
+      ], { reverse: true, limit: 2 });
+      eq(page.items, [DAVE, CAROL]);
+    });
+  });
+  describe("iterate", () => {
+    it("should iterate over all Persons in a country", async () => {
+      await db.save("person", ALICE);
+      await db.save("person", BOB);
+      const actual: Person[] = await asArray(
+        db.iterate<Person>("person", [["country", "US"]]),
+      );
+      eq(actual, [ALICE, BOB]);
+    });
+    it("should stop iterating early", async () => {
+      await db.save("person", ALICE);
+      await db.save("person", BOB);
+      const actual: Person[] = [];
+      for await (const person of db.iterate<Person>("person", "ssn")) {
+        actual.push(person);
+        break;
+      }
+      eq(actual, [ALICE]);
+    });
+  });
+  describe("watch", () => {
+    it("should emit a Person whenever it changes", async () => {
+      const stream: ReadableStream<Maybe<Person>> = db.watch<Person>(
+        "person",
+        "ssn",
+        ALICE.ssn,
+      );
+      const reader = stream.getReader();
+      try {
+        eq((await reader.read()).value, undefined);
+        await db.save("person", ALICE);
+        eq((await reader.read()).value, ALICE);
+        await db.save("person", { ...ALICE, firstname: "Alicia" });
+        eq((await reader.read()).value, { ...ALICE, firstname: "Alicia" });
+        await db.delete("person", "ssn", ALICE.ssn);
+        eq((await reader.read()).value, undefined);
+      } finally {
+        await reader.cancel();
+      }
+    });
+    it("should emit more Invoices than one watch allows", async () => {
+      const invoices: Invoice[] = Array.from({ length: 12 }, (_, i) => ({
+        invoiceNumber: String(i).padStart(2, "0"),
+        customerEmail: ALICE.email,
+      }));
+      for (const invoice of invoices) {
+        await db.save("invoice", invoice);
+      }
+      const reader = db.watchMany<Invoice>(
+        invoices.map(({ invoiceNumber }) => [
+          "invoice",
+          "invoiceNumber",
+          invoiceNumber,
+        ]),
+      ).getReader();
+      try {
+        eq((await reader.read()).value, invoices);
+        await db.delete("invoice", "invoiceNumber", "11");
+        eq((await reader.read()).value, [...invoices.slice(0, 11), undefined]);
+      } finally {
+        await reader.cancel();
+      }
+    });
+  });
   describe("empty db by default", () => {
     it("should return undefined for a Person", async () => {
       await assertFind<Person>(db, undefined, ["person", "ssn", ALICE.ssn]);
@@ -186,6 +711,58 @@ describe("db", () => {
       ]);
     });
   });
+  describe("clearAllEntities", () => {
+    const invoices: Invoice[] = Array.from(
+      { length: 25 },
+      (_, i) => ({
+        invoiceNumber: `${i}`.padStart(2, "0"),
+        customerEmail: ALICE.email,
+      }),
+    );
+
+    beforeEach(async () => {
+      for (const invoice of invoices) {
+        await db.save("invoice", invoice);
+      }
+    });
+
+    it("should clear in batches, reporting progress", async () => {
+      const progress: ClearProgress[] = [];
+      await db.clearAllEntities({
+        batchSize: 20,
+        onProgress: (p: ClearProgress) => progress.push(p),
+      });
+      eq(progress, [{ deleted: 20 }, { deleted: 40 }, { deleted: 50 }]);
+      await assertDbIs(db, []);
+    });
+    it("should clear atomically when possible", async () => {
+      const progress: ClearProgress[] = [];
+      await db.clearAllEntities({
+        atomic: true,
+        onProgress: (p: ClearProgress) => progress.push(p),
+      });
+      eq(progress, [{ deleted: 50 }]);
+      await assertDbIs(db, []);
+    });
+    it("should refuse to clear atomically when there is too much", async () => {
+      const kv: Deno.Kv = await Deno.openKv("./test.db");
+      try {
+        const atomic: Deno.AtomicOperation = kv.atomic();
+        for (let i = 0; i < 1000; i++) {
+          atomic.set([...TEST_PREFIX, "invoice", "filler", i], i);
+        }
+        await atomic.commit();
+      } finally {
+        kv.close();
+      }
+      await assertRejects(
+        () => db.clearEntity("invoice", { atomic: true }),
+        Error,
+        "Nothing was deleted",
+      );
+      await assertFindAll(db, invoices, ["invoice", "invoiceNumber"]);
+    });
+  });
   describe("delete", () => {
     it("should delete a Person via ssn", async () => {
       await db.save("person", ALICE);
@@ -219,6 +796,177 @@ describe("db", () => {
   });
 });
 
+describe("shared connection", () => {
+  const sharedPrefix: Deno.KvKey = [...TEST_PREFIX, "shared"];
+  const config: DbConfig<Person | Invoice> = {
+    prefix: sharedPrefix,
+    dbFilePath: "./test.db",
+    entityDefinitions: {
+      person: ENTITY_DEFINITION_PERSON as EntityDefinition<Person>,
+      invoice: ENTITY_DEFINITION_INVOICE as EntityDefinition<Invoice>,
+    },
+  };
+
+  it("should keep one connection open until closed", async () => {
+    const sharedDb = await EntityDb.open<Person | Invoice>(config);
+    try {
+      await sharedDb.save("person", ALICE);
+      await assertFind(sharedDb, ALICE, ["person", "ssn", ALICE.ssn]);
+      await Promise.all(
+        [1, 2, 3].map(() =>
+          sharedDb.update("person", "ssn", ALICE.ssn, (person: Person) => ({
+            ...person,
+            firstname: person.firstname + "!",
+          }))
+        ),
+      );
+      await assertFind(sharedDb, { ...ALICE, firstname: "Alice!!!" }, [
+        "person",
+        "ssn",
+        ALICE.ssn,
+      ]);
+    } finally {
+      await sharedDb.close();
+    }
+    await assertRejects(
+      () => sharedDb.find("person", "ssn", ALICE.ssn),
+      Error,
+      "closed",
+    );
+  });
+  it("should close the connection, when migrating on open fails", async () => {
+    await new EntityDb<Person | Invoice>(config).save("person", ALICE);
+    await assertRejects(
+      () =>
+        EntityDb.open<Person | Invoice>({
+          ...config,
+          migrateOnOpen: true,
+          entityDefinitions: {
+            ...config.entityDefinitions,
+            person: {
+              ...ENTITY_DEFINITION_PERSON,
+              version: 1,
+              migrations: {
+                1: () => {
+                  throw new Error("migration failed");
+                },
+              },
+            } as EntityDefinition<Person>,
+          },
+        }),
+      Error,
+      "migration failed",
+    );
+  });
+  it("should use, but not close, a given connection", async () => {
+    const kv: Deno.Kv = await Deno.openKv("./test.db");
+    try {
+      const sharedDb = new EntityDb<Person | Invoice>({ ...config, kv });
+      await sharedDb.save("person", ALICE);
+      await sharedDb[Symbol.asyncDispose]();
+      eq(
+        (await kv.get([...sharedPrefix, "person", "ssn", ALICE.ssn])).value,
+        ALICE,
+      );
+    } finally {
+      kv.close();
+    }
+  });
+});
+
+describe("valueStorage: references", () => {
+  const referencesPrefix: Deno.KvKey = [...TEST_PREFIX, "references"];
+  const referencesDb = new EntityDb<Person | Invoice>({
+    prefix: referencesPrefix,
+    dbFilePath: "./test.db",
+    valueStorage: "references",
+    entityDefinitions: {
+      person: ENTITY_DEFINITION_PERSON as EntityDefinition<Person>,
+      invoice: ENTITY_DEFINITION_INVOICE as EntityDefinition<Invoice>,
+    },
+  });
+  const alicePrimaryKey: Deno.KvKey = [
+    ...referencesPrefix,
+    ENTITY_DEFINITION_PERSON.id,
+    ...["ssn", ALICE.ssn],
+  ];
+
+  it("should store a Person only at its primary key", async () => {
+    await referencesDb.save("person", ALICE);
+    await assertDbIs(db, [
+      [alicePrimaryKey, ALICE],
+      [
+        [
+          ...referencesPrefix,
+          ENTITY_DEFINITION_PERSON.id,
+          ...["email", ALICE.email],
+        ],
+        alicePrimaryKey,
+      ],
+      [
+        [
+          ...referencesPrefix,
+          ENTITY_DEFINITION_PERSON.id,
+          ...["lastname", ALICE.lastname],
+          ...["firstname", ALICE.firstname],
+          ALICE.ssn,
+        ],
+        alicePrimaryKey,
+      ],
+      [
+        [
+          ...referencesPrefix,
+          ENTITY_DEFINITION_PERSON.id,
+          ...["country", ALICE.country],
+          ...["zipcode", ALICE.zipcode],
+          ALICE.ssn,
+        ],
+        alicePrimaryKey,
+      ],
+    ]);
+  });
+  it("should find a Person via references", async () => {
+    await referencesDb.save("person", ALICE);
+    await referencesDb.save("person", BOB);
+    await assertFind(referencesDb, ALICE, ["person", "email", ALICE.email]);
+    await assertFindAll(referencesDb, [ALICE, BOB], [
+      "person",
+      [["country", "US"]],
+    ]);
+  });
+  it("should enforce unique constraints via references", async () => {
+    await referencesDb.save("person", ALICE);
+    await assertRejects(
+      () => referencesDb.save("person", { ...BOB, email: ALICE.email }),
+      UniqueConstraintViolationError,
+    );
+  });
+  it("should watch a Person via references", async () => {
+    await referencesDb.save("person", ALICE);
+    const reader = referencesDb.watch<Person>("person", "email", ALICE.email)
+      .getReader();
+    try {
+      eq((await reader.read()).value, ALICE);
+      await referencesDb.save("person", { ...ALICE, firstname: "Alicia" });
+      eq((await reader.read()).value, { ...ALICE, firstname: "Alicia" });
+    } finally {
+      await reader.cancel();
+    }
+  });
+  it("should read a db that was written with copies", async () => {
+    const copiesDb = new EntityDb<Person | Invoice>({
+      prefix: referencesPrefix,
+      dbFilePath: "./test.db",
+      entityDefinitions: {
+        person: ENTITY_DEFINITION_PERSON as EntityDefinition<Person>,
+        invoice: ENTITY_DEFINITION_INVOICE as EntityDefinition<Invoice>,
+      },
+    });
+    await copiesDb.save("person", ALICE);
+    await assertFind(referencesDb, ALICE, ["person", "email", ALICE.email]);
+  });
+});
+
 describe("Entire DB", () => {
   it("should be empty by default", async () => {
     await assertDbIs(db, []);
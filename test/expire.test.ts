@@ -0,0 +1,123 @@
+import { assertEquals as eq } from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { Maybe } from "../src/fn.ts";
+import { EntityDefinition } from "../src/types.ts";
+import { ALICE, ENTITY_DEFINITION_PERSON, Person } from "./fixtures.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("expireIn", () => {
+  let kv: Deno.Kv;
+  let db: EntityDb<Person>;
+  // the expireIn of each key set, as Deno.Kv does not tell when a key expires
+  let expireIns: Map<string, Maybe<number>>;
+
+  beforeEach(async () => {
+    kv = await Deno.openKv("./test.db");
+    expireIns = new Map();
+    const atomic = kv.atomic.bind(kv);
+    kv.atomic = () => {
+      const operation: Deno.AtomicOperation = atomic();
+      const set = operation.set.bind(operation);
+      operation.set = (key, value, options) => {
+        expireIns.set(JSON.stringify(key), options?.expireIn);
+        return set(key, value, options);
+      };
+      return operation;
+    };
+    db = new EntityDb<Person>({
+      prefix: PREFIX,
+      kv,
+      entityDefinitions: {
+        person: {
+          ...ENTITY_DEFINITION_PERSON,
+          expireIn: 60_000,
+          softDelete: true,
+        } as EntityDefinition<Person>,
+      },
+    });
+  });
+  afterEach(() => kv.close());
+
+  it("should expire all keys after the default of the EntityDefinition", async () => {
+    await db.save("person", ALICE);
+
+    // the four keys of the EntityInstance, and the one that remembers when it expires
+    eq(expireIns.size, 5);
+    eq([...expireIns.values()], [60_000, 60_000, 60_000, 60_000, 60_000]);
+  });
+  it("should expire all keys after the expireIn of a save", async () => {
+    await db.save("person", ALICE, { expireIn: 1000 });
+
+    eq([...expireIns.values()], [1000, 1000, 1000, 1000, 1000]);
+  });
+  it("should expire all keys after the expireIn of an insert", async () => {
+    await db.insert("person", ALICE, { expireIn: 1000 });
+
+    eq([...expireIns.values()], [1000, 1000, 1000, 1000, 1000]);
+  });
+  it("should keep the rest of the expireIn of a save when soft deleting and restoring", async () => {
+    await db.save("person", ALICE, { expireIn: 1000 });
+
+    await db.delete("person", "ssn", ALICE.ssn);
+    eq(
+      [...expireIns.values()].every((expireIn) =>
+        expireIn! > 0 && expireIn! <= 1000
+      ),
+      true,
+    );
+
+    expireIns.clear();
+    await db.restore("person", "ssn", ALICE.ssn);
+    eq(expireIns.size, 5);
+    eq(
+      [...expireIns.values()].every((expireIn) =>
+        expireIn! > 0 && expireIn! <= 1000
+      ),
+      true,
+    );
+  });
+  it("should keep the rest of the expireIn of a save when reindexing", async () => {
+    await db.save("person", ALICE, { expireIn: 1000 });
+    expireIns.clear();
+
+    await db.reindex("person");
+
+    eq(expireIns.size, 5);
+    eq(
+      [...expireIns.values()].every((expireIn) =>
+        expireIn! > 0 && expireIn! <= 1000
+      ),
+      true,
+    );
+  });
+  it("should not expire an EntityInstance that was saved again without expiry", async () => {
+    const permanent: EntityDb<Person> = new EntityDb<Person>({
+      prefix: PREFIX,
+      kv,
+      entityDefinitions: {
+        person: {
+          ...ENTITY_DEFINITION_PERSON,
+          softDelete: true,
+        } as EntityDefinition<Person>,
+      },
+    });
+    await permanent.save("person", ALICE, { expireIn: 1000 });
+    await permanent.save("person", ALICE);
+    expireIns.clear();
+
+    await permanent.delete("person", "ssn", ALICE.ssn);
+
+    eq([...expireIns.values()], [undefined, undefined, undefined, undefined]);
+  });
+});
@@ -0,0 +1,27 @@
+import { assertEquals as eq } from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import { describe, it } from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { nextKvKeyPart } from "../src/fn.ts";
+
+describe("nextKvKeyPart", () => {
+  it("should append a NUL character to a string", () => {
+    eq(nextKvKeyPart("abc"), "abc\0");
+  });
+  it("should append a zero byte to a Uint8Array", () => {
+    eq(nextKvKeyPart(new Uint8Array([1, 2])), new Uint8Array([1, 2, 0]));
+  });
+  it("should add one to a bigint", () => {
+    eq(nextKvKeyPart(41n), 42n);
+  });
+  it("should step a number to the next larger one", () => {
+    eq(nextKvKeyPart(1), 1 + Number.EPSILON);
+    eq(nextKvKeyPart(0), Number.MIN_VALUE);
+    eq(nextKvKeyPart(-0), 0);
+    eq(nextKvKeyPart(-Number.MIN_VALUE), -0);
+    eq(nextKvKeyPart(-1), -1 + Number.EPSILON / 2);
+  });
+  it("should have nothing after the largest values", () => {
+    eq(nextKvKeyPart(Infinity), undefined);
+    eq(nextKvKeyPart(true), undefined);
+    eq(nextKvKeyPart(false), true);
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  assertEquals as eq,
+  assertRejects,
+} from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { UniqueConstraintViolationError } from "../src/errors.ts";
+import {
+  EntityDefinition,
+  EntityHooks,
+  GlobalEntityHooks,
+} from "../src/types.ts";
+import {
+  ALICE,
+  BOB,
+  ENTITY_DEFINITION_INVOICE,
+  ENTITY_DEFINITION_PERSON,
+  Invoice,
+  Person,
+} from "./fixtures.ts";
+import { assertFind, assertFindAll } from "./assert-find.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+function createDb(
+  hooks: GlobalEntityHooks<Person | Invoice>,
+  personHooks: EntityHooks<Person>,
+): EntityDb<Person | Invoice> {
+  return new EntityDb<Person | Invoice>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    hooks,
+    entityDefinitions: {
+      person: {
+        ...ENTITY_DEFINITION_PERSON,
+        hooks: personHooks,
+      } as EntityDefinition<Person>,
+      invoice: ENTITY_DEFINITION_INVOICE as EntityDefinition<Invoice>,
+    },
+  });
+}
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("hooks", () => {
+  it("should save what beforeSave returns, at keys calculated from it", async () => {
+    const db = createDb({}, {
+      beforeSave: (_, person: Person) => ({
+        ...person,
+        email: person.email.toLowerCase(),
+      }),
+    });
+    await db.save("person", { ...ALICE, email: "Alice@Example.com" });
+
+    await assertFind(db, ALICE, ["person", "email", "alice@example.com"]);
+    await assertFind(db, undefined, ["person", "email", "Alice@Example.com"]);
+  });
+  it("should call the global hooks first", async () => {
+    const calls: string[] = [];
+    const db = createDb({
+      beforeSave: (entityDefinitionId, entityInstance) => {
+        calls.push(`global ${entityDefinitionId}`);
+        return entityInstance;
+      },
+    }, {
+      beforeSave: () => {
+        calls.push("person");
+      },
+    });
+    await db.save("person", ALICE);
+    await db.save("invoice", { invoiceNumber: "1", customerEmail: "" });
+
+    eq(calls, ["global person", "person", "global invoice"]);
+  });
+  it("should call afterSave only after committing", async () => {
+    const saved: Person[] = [];
+    const db = createDb({}, {
+      beforeSave: (_, person: Person) => ({ ...person, country: "NL" }),
+      afterSave: (_, person: Person) => {
+        saved.push(person);
+      },
+    });
+    await db.save("person", ALICE);
+    await assertRejects(
+      () => db.save("person", { ...BOB, email: ALICE.email }),
+      UniqueConstraintViolationError,
+    );
+
+    eq(saved, [{ ...ALICE, country: "NL" }]);
+  });
+  it("should not delete, when beforeDelete throws", async () => {
+    const db = createDb({}, {
+      beforeDelete: (_, person: Person) => {
+        if (person.ssn === ALICE.ssn) {
+          throw new Error("Alice can not be deleted");
+        }
+      },
+    });
+    await db.save("person", ALICE);
+    await assertRejects(
+      () => db.delete("person", "email", ALICE.email),
+      Error,
+      "Alice can not be deleted",
+    );
+    await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+  });
+  it("should cascade deletes with afterDelete", async () => {
+    const db: EntityDb<Person | Invoice> = createDb({}, {
+      afterDelete: async (_, person: Person) => {
+        for (
+          const invoice of await db.findAll<Invoice>("invoice", [[
+            "customerEmail",
+            person.email,
+          ]])
+        ) {
+          await db.deleteEntityInstance("invoice", invoice);
+        }
+      },
+    });
+    const invoice: Invoice = { invoiceNumber: "1", customerEmail: BOB.email };
+    await db.save("person", ALICE);
+    await db.save("invoice", {
+      invoiceNumber: "2",
+      customerEmail: ALICE.email,
+    });
+    await db.save("invoice", invoice);
+    await db.delete("person", "ssn", ALICE.ssn);
+
+    await assertFindAll(db, [invoice], ["invoice", "invoiceNumber"]);
+  });
+  it("should call the after hooks of a transaction once it is committed", async () => {
+    const calls: string[] = [];
+    const db = createDb({
+      afterSave: (entityDefinitionId) => {
+        calls.push(`saved ${entityDefinitionId}`);
+      },
+      afterDelete: (entityDefinitionId) => {
+        calls.push(`deleted ${entityDefinitionId}`);
+      },
+    }, {});
+    await db.save("person", BOB);
+    await db.transaction(async (tx) => {
+      await tx.save("person", ALICE);
+      await tx.delete("person", "ssn", BOB.ssn);
+      eq(calls, ["saved person"]);
+    });
+
+    eq(calls, ["saved person", "saved person", "deleted person"]);
+  });
+});
@@ -0,0 +1,220 @@
+import { assertEquals as eq } from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { asArray } from "../src/fn.ts";
+import { EntityDefinition, SchemaChange } from "../src/types.ts";
+import { ALICE, BOB, ENTITY_DEFINITION_PERSON, Person } from "./fixtures.ts";
+import { assertFind, assertFindAll } from "./assert-find.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+function createDb(
+  entityDefinition: Partial<EntityDefinition<Person>>,
+): EntityDb<Person> {
+  return new EntityDb<Person>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    entityDefinitions: {
+      person: { ...ENTITY_DEFINITION_PERSON, ...entityDefinition },
+    },
+  });
+}
+
+async function listKeys(): Promise<Deno.KvKey[]> {
+  const kv: Deno.Kv = await Deno.openKv("./test.db");
+  try {
+    const entries = await asArray(kv.list({ prefix: PREFIX }));
+    return entries.map(({ key }) => key.slice(PREFIX.length));
+  } finally {
+    kv.close();
+  }
+}
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("getSchemaChanges", () => {
+  it("should count a never migrated EntityDefinition as changed", async () => {
+    const db = createDb({});
+    const changes: SchemaChange[] = await db.getSchemaChanges();
+    eq(changes.map(({ entityDefinitionId }) => entityDefinitionId), [
+      "person",
+    ]);
+    eq(changes[0].stored, undefined);
+  });
+  it("should find no changes after migrating", async () => {
+    const db = createDb({});
+    await db.migrate();
+    eq(await db.getSchemaChanges(), []);
+  });
+  it("should find added and removed indexed property chains", async () => {
+    await createDb({}).migrate();
+    const db = createDb({
+      indexedPropertyChains: [["country", "zipcode"], ["firstname"]],
+    });
+    const [change]: SchemaChange[] = await db.getSchemaChanges();
+    eq(change.addedIndexedPropertyChains, [["firstname"]]);
+    eq(change.removedIndexedPropertyChains, [["lastname", "firstname"]]);
+    eq(change.addedUniqueProperties, []);
+    eq(change.removedUniqueProperties, []);
+  });
+});
+
+describe("migrate", () => {
+  it("should not expose the stored EntityDefinitions as entities", async () => {
+    const db = createDb({});
+    await db.save("person", ALICE);
+    await db.migrate();
+    await assertFindAll(db, [ALICE], ["person", "ssn"]);
+    eq((await db.findAll()).length, 4);
+
+    await db.clearAllEntities();
+    eq(await db.getSchemaChanges(), []);
+  });
+  it("should add keys for added chains, and remove keys for removed chains", async () => {
+    await createDb({ indexedPropertyChains: [["lastname", "firstname"]] })
+      .save("person", ALICE);
+    const db = createDb({ indexedPropertyChains: [["country", "zipcode"]] });
+    await db.migrate();
+
+    await assertFindAll(db, [ALICE], ["person", [["country", ALICE.country]]]);
+    eq(
+      (await listKeys()).filter((key) => key[0] === "person").toSorted(),
+      [
+        ["person", "country", "US", "zipcode", "12345", ALICE.ssn],
+        ["person", "email", ALICE.email],
+        ["person", "ssn", ALICE.ssn],
+      ],
+    );
+  });
+  it("should move keys when the first unique property changes", async () => {
+    const oldDb = createDb({});
+    await oldDb.save("person", ALICE);
+    await oldDb.save("person", BOB);
+    await oldDb.migrate();
+
+    const db = createDb({ uniqueProperties: ["email", "ssn"] });
+    await db.migrate();
+    await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+    eq(
+      (await listKeys()).filter((key) => key[0] === "person" && key.length > 3)
+        .map((key) => key.at(-1)).toSorted(),
+      [ALICE.email, ALICE.email, BOB.email, BOB.email],
+    );
+  });
+  it("should run migrations for each version after the stored one", async () => {
+    const oldDb = createDb({});
+    await oldDb.save("person", { ...ALICE, country: "us" });
+    await oldDb.migrate();
+
+    const progress: number[] = [];
+    const db = createDb({
+      version: 2,
+      migrations: {
+        1: (person) =>
+          ({ ...person, country: String(person.country) + "a" }) as Person,
+        2: (person) =>
+          ({
+            ...person,
+            country: String(person.country).toUpperCase(),
+          }) as Person,
+      },
+    });
+    await db.migrate({ onProgress: ({ migrated }) => progress.push(migrated) });
+
+    eq(progress, [1]);
+    const usa: Person = { ...ALICE, country: "USA" };
+    await assertFind(db, usa, ["person", "ssn", ALICE.ssn]);
+    await assertFindAll(db, [usa], ["person", [["country", "USA"]]]);
+    await assertFindAll(db, [], ["person", [["country", "us"]]]);
+  });
+  it("should run all migrations when nothing was migrated before", async () => {
+    await createDb({}).save("person", { ...ALICE, country: "us" });
+
+    const db = createDb({
+      version: 1,
+      migrations: {
+        1: (person) =>
+          ({
+            ...person,
+            country: String(person.country).toUpperCase(),
+          }) as Person,
+      },
+    });
+    eq((await db.migrate()).length, 1);
+
+    await assertFind(db, { ...ALICE, country: "US" }, [
+      "person",
+      "ssn",
+      ALICE.ssn,
+    ]);
+  });
+  it("should not migrate what was saved at the current version before the first migrate", async () => {
+    const db = createDb({
+      version: 1,
+      migrations: {
+        1: (person) =>
+          ({ ...person, country: String(person.country) + "a" }) as Person,
+      },
+    });
+    await db.save("person", ALICE);
+    await db.migrate();
+    await db.migrate();
+
+    await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+  });
+  it("should migrate each EntityInstance from the version it was saved at", async () => {
+    const oldDb = createDb({
+      version: 1,
+      migrations: { 1: (person) => person as Person },
+    });
+    await oldDb.save("person", { ...ALICE, country: "us" });
+    await oldDb.migrate();
+
+    const db = createDb({
+      version: 2,
+      migrations: {
+        1: (person) => person as Person,
+        2: (person) =>
+          ({ ...person, country: String(person.country) + "a" }) as Person,
+      },
+    });
+    await db.save("person", { ...BOB, country: "usa" });
+    await db.migrate();
+
+    await assertFind(db, { ...ALICE, country: "usa" }, [
+      "person",
+      "ssn",
+      ALICE.ssn,
+    ]);
+    await assertFind(db, { ...BOB, country: "usa" }, [
+      "person",
+      "ssn",
+      BOB.ssn,
+    ]);
+  });
+});
+
+describe("reindex", () => {
+  it("should restore missing keys and remove unused ones", async () => {
+    const db = createDb({});
+    await db.save("person", ALICE);
+    const kv: Deno.Kv = await Deno.openKv("./test.db");
+    try {
+      await kv.delete([...PREFIX, "person", "email", ALICE.email]);
+      await kv.set([...PREFIX, "person", "email", "old@example.com"], ALICE);
+    } finally {
+      kv.close();
+    }
+
+    await db.reindex("person");
+    await assertFind(db, ALICE, ["person", "email", ALICE.email]);
+    await assertFind(db, undefined, ["person", "email", "old@example.com"]);
+  });
+});
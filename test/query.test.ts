@@ -0,0 +1,194 @@
+import {
+  assertEquals as eq,
+  assertRejects,
+} from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { FullScanError } from "../src/errors.ts";
+import { planQuery } from "../src/query.ts";
+import {
+  EntityDefinition,
+  EntityDefinitionId,
+  Explanation,
+} from "../src/types.ts";
+import { ALICE, BOB, ENTITY_DEFINITION_PERSON, Person } from "./fixtures.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+const CAROL: Person = {
+  ssn: "555-55-5555",
+  email: "carol@example.com",
+  firstname: "Carol",
+  lastname: "Smith",
+  country: "SE",
+  zipcode: "11122",
+};
+const DAVE: Person = {
+  ssn: "222-22-2222",
+  email: "dave@example.com",
+  firstname: "Dave",
+  lastname: "Smith",
+  country: "US",
+  zipcode: "90210",
+};
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("query", () => {
+  const db = new EntityDb<Person>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    entityDefinitions: {
+      person: ENTITY_DEFINITION_PERSON as EntityDefinition<Person>,
+    },
+  });
+  let fullScans: [EntityDefinitionId, PropertyKey[]][];
+  const onFullScan = (
+    entityDefinitionId: EntityDefinitionId,
+    properties: PropertyKey[],
+  ) => fullScans.push([entityDefinitionId, properties]);
+
+  beforeEach(async () => {
+    fullScans = [];
+    for (const person of [ALICE, BOB, CAROL, DAVE]) {
+      await db.save("person", person);
+    }
+  });
+
+  it("should look up a unique property, and check the other conditions", async () => {
+    eq(
+      await db.query<Person>("person", { onFullScan })
+        .where("email", "=", ALICE.email)
+        .where("country", "=", "US")
+        .findAll(),
+      [ALICE],
+    );
+    eq(
+      await db.query<Person>("person", { onFullScan })
+        .where("email", "=", ALICE.email)
+        .where("country", "=", "SE")
+        .findAll(),
+      [],
+    );
+    eq(fullScans, []);
+  });
+  it("should list the best chain, and filter the rest in memory", async () => {
+    eq(
+      await db.query<Person>("person", { onFullScan })
+        .where("country", "=", "US")
+        .where("zipcode", ">", "2")
+        .findAll(),
+      [DAVE],
+    );
+    eq(
+      await db.query<Person>("person", { onFullScan })
+        .where("lastname", "=", "Smith")
+        .where("zipcode", "<", "5")
+        .findAll(),
+      [ALICE, CAROL],
+    );
+    eq(fullScans, []);
+  });
+  it("should order, and stop at the limit", async () => {
+    eq(
+      await db.query<Person>("person")
+        .where("country", "=", "US")
+        .orderBy("zipcode", "desc")
+        .limit(2)
+        .findAll(),
+      [DAVE, BOB],
+    );
+    eq(
+      await db.query<Person>("person")
+        .where("lastname", "=", "Smith")
+        .orderBy("zipcode")
+        .findAll(),
+      [CAROL, ALICE, DAVE],
+    );
+  });
+  it("should report full scans", async () => {
+    eq(
+      await db.query<Person>("person", { onFullScan })
+        .where("firstname", "!=", "Bob")
+        .orderBy("firstname", "desc")
+        .findAll(),
+      [DAVE, CAROL, ALICE],
+    );
+    eq(fullScans, [["person", ["firstname"]]]);
+  });
+  it("should refuse full scans when asked to", async () => {
+    await assertRejects(
+      () =>
+        db.query<Person>("person", { refuseFullScan: true })
+          .where("zipcode", "=", "12345")
+          .findAll(),
+      FullScanError,
+      "no index matches zipcode",
+    );
+  });
+  it("should explain how it found EntityInstances", async () => {
+    const explanation: Explanation = await db.query<Person>("person")
+      .where("country", "=", "US")
+      .where("firstname", "=", "Bob")
+      .explain();
+
+    eq(explanation.selector, {
+      prefix: [...PREFIX, "person", "country", "US"],
+    });
+    eq(explanation.chain, ["country", "zipcode"]);
+    eq(explanation.fullScan, false);
+    eq(explanation.entriesRead, 3);
+    eq(explanation.entitiesReturned, 1);
+    eq(explanation.elapsedMs >= 0, true);
+
+    const unique: Explanation = await db.query<Person>("person")
+      .where("ssn", "=", ALICE.ssn)
+      .explain();
+    eq(unique.key, [...PREFIX, "person", "ssn", ALICE.ssn]);
+    eq([unique.entriesRead, unique.entitiesReturned], [1, 1]);
+  });
+  it("should explain findAll", async () => {
+    const explanation: Explanation = await db.explain<Person>("person", [
+      ["lastname", "Smith"],
+    ], { limit: 1 });
+
+    eq(explanation.selector, {
+      prefix: [...PREFIX, "person", "lastname", "Smith"],
+    });
+    eq(explanation.chain, ["lastname", "firstname"]);
+    eq(explanation.fullScan, false);
+    // one more than the limit, to know whether there is a next page
+    eq(explanation.entriesRead, 2);
+    eq(explanation.entitiesReturned, 1);
+
+    const all: Explanation = await db.explain<Person>("person", "ssn");
+    eq([all.chain, all.fullScan, all.entriesRead], [undefined, true, 4]);
+  });
+  it("should prefer the chain that matches the most conditions", () => {
+    eq(
+      planQuery(
+        ENTITY_DEFINITION_PERSON as EntityDefinition<Person>,
+        [
+          { property: "country", operator: "=", value: "US" },
+          { property: "lastname", operator: "=", value: "Smith" },
+          { property: "firstname", operator: ">=", value: "B" },
+        ],
+        undefined,
+      ),
+      {
+        kind: "list",
+        chain: ["lastname", "firstname"],
+        lookup: [["lastname", "Smith"], ["firstname", { gte: "B" }]],
+        ordered: true,
+        fullScan: false,
+      },
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  assertEquals as eq,
+  assertRejects,
+} from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { ReferentialIntegrityError } from "../src/errors.ts";
+import { asArray } from "../src/fn.ts";
+import { EntityDefinition, Page, RelationDeleteAction } from "../src/types.ts";
+import {
+  ALICE,
+  BOB,
+  ENTITY_DEFINITION_INVOICE,
+  ENTITY_DEFINITION_PERSON,
+  Invoice,
+  Person,
+} from "./fixtures.ts";
+import { assertFind, assertFindAll } from "./assert-find.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+type PersonWithInvoices = Person & { invoices: Invoice[] };
+type InvoiceWithCustomer = Invoice & { customer?: Person };
+
+const INVOICE_1: Invoice = { invoiceNumber: "1", customerEmail: ALICE.email };
+const INVOICE_2: Invoice = { invoiceNumber: "2", customerEmail: ALICE.email };
+const INVOICE_3: Invoice = { invoiceNumber: "3", customerEmail: BOB.email };
+
+function createDb(
+  onDelete?: RelationDeleteAction,
+): EntityDb<Person | Invoice> {
+  return new EntityDb<Person | Invoice>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    entityDefinitions: {
+      person: {
+        ...ENTITY_DEFINITION_PERSON,
+        relations: {
+          invoices: {
+            kind: "hasMany",
+            entityDefinitionId: "invoice",
+            property: "email",
+            relatedProperty: "customerEmail",
+            onDelete,
+          },
+        },
+      } as EntityDefinition<Person>,
+      invoice: {
+        ...ENTITY_DEFINITION_INVOICE,
+        relations: {
+          customer: {
+            kind: "belongsTo",
+            entityDefinitionId: "person",
+            property: "customerEmail",
+            relatedProperty: "email",
+          },
+        },
+      } as EntityDefinition<Invoice>,
+    },
+  });
+}
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("relations", () => {
+  const db = createDb();
+
+  beforeEach(async () => {
+    await db.save("person", ALICE);
+    await db.save("invoice", INVOICE_1);
+    await db.save("invoice", INVOICE_2);
+    await db.save("invoice", INVOICE_3);
+  });
+
+  it("should include has-many relations", async () => {
+    eq(
+      await db.find<PersonWithInvoices>("person", "ssn", ALICE.ssn, {
+        include: ["invoices"],
+      }),
+      { ...ALICE, invoices: [INVOICE_1, INVOICE_2] },
+    );
+    await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+  });
+  it("should include belongs-to relations, also when missing", async () => {
+    const page: Page<InvoiceWithCustomer> = await db.findAll(
+      "invoice",
+      "invoiceNumber",
+      { include: ["customer"] },
+    );
+    eq(page.items, [
+      { ...INVOICE_1, customer: ALICE },
+      { ...INVOICE_2, customer: ALICE },
+      { ...INVOICE_3, customer: undefined },
+    ]);
+    eq(
+      await asArray(
+        db.iterate<InvoiceWithCustomer>("invoice", "invoiceNumber", {
+          include: ["customer"],
+        }),
+      ),
+      page.items,
+    );
+  });
+  it("should refuse to include unknown relations", async () => {
+    await assertRejects(
+      () => db.find("person", "ssn", ALICE.ssn, { include: ["unknown"] }),
+      Error,
+      "person has no relation named unknown",
+    );
+  });
+});
+
+describe("relations onDelete", () => {
+  beforeEach(async () => {
+    const db = createDb();
+    await db.save("person", ALICE);
+    await db.save("person", BOB);
+    await db.save("invoice", INVOICE_1);
+    await db.save("invoice", INVOICE_2);
+    await db.save("invoice", INVOICE_3);
+  });
+
+  it("should refuse to delete with restrict", async () => {
+    const db = createDb("restrict");
+
+    await assertRejects(
+      () => db.delete("person", "ssn", ALICE.ssn),
+      ReferentialIntegrityError,
+    );
+    await assertFind(db, ALICE, ["person", "ssn", ALICE.ssn]);
+
+    await db.delete("invoice", "invoiceNumber", INVOICE_3.invoiceNumber);
+    await db.delete("person", "ssn", BOB.ssn);
+    await assertFind(db, undefined, ["person", "ssn", BOB.ssn]);
+  });
+  it("should delete related EntityInstances with cascade", async () => {
+    const db = createDb("cascade");
+
+    await db.delete("person", "ssn", ALICE.ssn);
+
+    await assertFindAll(db, [INVOICE_3], ["invoice", "invoiceNumber"]);
+    await assertFindAll(db, [INVOICE_3], ["invoice", "customerEmail"]);
+  });
+  it("should unset the related property with setNull", async () => {
+    const db = createDb("setNull");
+
+    await db.delete("person", "ssn", ALICE.ssn);
+
+    await assertFindAll(db, [
+      { ...INVOICE_1, customerEmail: null } as unknown as Invoice,
+      { ...INVOICE_2, customerEmail: null } as unknown as Invoice,
+      INVOICE_3,
+    ], ["invoice", "invoiceNumber"]);
+    // the orphaned Invoices are no longer indexed by customerEmail
+    await assertFindAll(db, [INVOICE_3], ["invoice", "customerEmail"]);
+  });
+});
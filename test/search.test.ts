@@ -0,0 +1,129 @@
+import {
+  assertEquals as eq,
+  assertRejects,
+} from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { tokenize } from "../src/search.ts";
+import { EntityDefinition } from "../src/types.ts";
+import { ALICE, BOB, ENTITY_DEFINITION_PERSON, Person } from "./fixtures.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+const CAROL: Person = {
+  ssn: "555-55-5555",
+  email: "carol@example.com",
+  firstname: "Ali",
+  lastname: "Alison",
+  country: "SE",
+  zipcode: "11122",
+};
+
+function createDb(searchable: boolean): EntityDb<Person> {
+  return new EntityDb<Person>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    entityDefinitions: {
+      person: {
+        ...ENTITY_DEFINITION_PERSON,
+        softDelete: true,
+        ...(searchable
+          ? { searchableProperties: ["firstname", "lastname"] }
+          : {}),
+      } as EntityDefinition<Person>,
+    },
+  });
+}
+
+async function countKeys(): Promise<number> {
+  const kv: Deno.Kv = await Deno.openKv("./test.db");
+  try {
+    let count = 0;
+    for await (const _ of kv.list({ prefix: PREFIX })) {
+      count++;
+    }
+    return count;
+  } finally {
+    kv.close();
+  }
+}
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("search", () => {
+  const db = createDb(true);
+
+  beforeEach(async () => {
+    for (const person of [ALICE, BOB, CAROL]) {
+      await db.save("person", person);
+    }
+  });
+
+  it("should find words and the start of words, best match first", async () => {
+    // "ali" is a whole word of CAROL, and the start of one of ALICE
+    eq(await db.search("person", "ali"), [CAROL, ALICE]);
+    eq(await db.search("person", "Smith, ALI!"), [ALICE, CAROL]);
+    eq(await db.search("person", "ali", { prefix: false }), [CAROL]);
+    eq(await db.search("person", "ali", { limit: 1 }), [CAROL]);
+    eq(await db.search("person", "zed"), []);
+  });
+  it("should keep the index up to date", async () => {
+    await db.save("person", { ...ALICE, firstname: "Alicia" });
+    eq(await db.search("person", "alice"), []);
+    eq(await db.search("person", "alicia"), [{
+      ...ALICE,
+      firstname: "Alicia",
+    }]);
+
+    await db.delete("person", "ssn", BOB.ssn);
+    eq(await db.search("person", "bob"), []);
+    eq(
+      (await db.search("person", "bob", { includeDeleted: true })).length,
+      1,
+    );
+
+    await db.delete("person", "ssn", BOB.ssn, { permanent: true });
+    eq(await db.search("person", "bob", { includeDeleted: true }), []);
+
+    await db.clearEntity("person");
+    eq(await countKeys(), 0);
+  });
+  it("should build the index when migrating", async () => {
+    await deleteAll(PREFIX);
+    const withoutSearch: EntityDb<Person> = createDb(false);
+    await withoutSearch.save("person", ALICE);
+    await withoutSearch.migrate();
+
+    eq(
+      (await db.getSchemaChanges()).map(({ current }) =>
+        current.searchableProperties
+      ),
+      [["firstname", "lastname"]],
+    );
+    await db.migrate();
+    eq(await db.search("person", "smi"), [ALICE]);
+  });
+  it("should refuse to search without searchable properties", async () => {
+    await assertRejects(
+      () => createDb(false).search("person", "ali"),
+      Error,
+      "person has no searchable properties",
+    );
+  });
+  it("should split text into lower-cased words", () => {
+    eq(tokenize("Élodie O'Brien-Smith, 42"), [
+      "élodie",
+      "o",
+      "brien",
+      "smith",
+      "42",
+    ]);
+  });
+});
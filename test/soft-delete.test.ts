@@ -0,0 +1,98 @@
+import {
+  assertEquals as eq,
+  assertRejects,
+} from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { UniqueConstraintViolationError } from "../src/errors.ts";
+import { asArray, Maybe } from "../src/fn.ts";
+import { EntityDefinition, Page } from "../src/types.ts";
+import { ALICE, BOB, ENTITY_DEFINITION_PERSON, Person } from "./fixtures.ts";
+import { assertFind, assertFindAll } from "./assert-find.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+type DeletablePerson = Person & { deletedAt?: Date };
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("soft delete", () => {
+  const db = new EntityDb<Person>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    changelog: true,
+    entityDefinitions: {
+      person: {
+        ...ENTITY_DEFINITION_PERSON,
+        softDelete: true,
+      } as EntityDefinition<Person>,
+    },
+  });
+
+  beforeEach(async () => {
+    await db.save("person", ALICE);
+    await db.save("person", BOB);
+  });
+
+  it("should leave out deleted Persons when finding", async () => {
+    await db.delete("person", "email", ALICE.email);
+
+    await assertFind(db, undefined, ["person", "ssn", ALICE.ssn]);
+    await assertFindAll(db, [BOB], ["person", "ssn"]);
+    await assertFindAll(db, [BOB], ["person", [["country", "US"]]]);
+    eq(await asArray(db.iterate("person", "ssn")), [BOB]);
+    eq(
+      await db.update("person", "ssn", ALICE.ssn, (person) => person),
+      undefined,
+    );
+  });
+  it("should find deleted Persons when asked to", async () => {
+    await db.deleteEntityInstance("person", ALICE);
+
+    const alice: Maybe<DeletablePerson> = await db.find(
+      "person",
+      "ssn",
+      ALICE.ssn,
+      { includeDeleted: true },
+    );
+    eq(alice?.deletedAt instanceof Date, true);
+    const page: Page<DeletablePerson> = await db.findAll("person", "ssn", {
+      includeDeleted: true,
+    });
+    eq(page.items.map(({ ssn }) => ssn), [ALICE.ssn, BOB.ssn]);
+  });
+  it("should keep the unique keys of deleted Persons", async () => {
+    await db.delete("person", "ssn", ALICE.ssn);
+
+    await assertRejects(
+      () => db.save("person", { ...BOB, email: ALICE.email }),
+      UniqueConstraintViolationError,
+    );
+  });
+  it("should restore a deleted Person", async () => {
+    await db.delete("person", "ssn", ALICE.ssn);
+
+    eq(await db.restore("person", "email", ALICE.email), ALICE);
+    await assertFind(db, ALICE, ["person", "email", ALICE.email]);
+    eq(await db.restore("person", "ssn", "000-00-0000"), undefined);
+    eq(
+      (await db.changes()).slice(2).map(({ operation }) => operation),
+      ["delete", "restore"],
+    );
+  });
+  it("should erase a Person permanently", async () => {
+    await db.delete("person", "ssn", ALICE.ssn);
+    await db.delete("person", "ssn", ALICE.ssn, { permanent: true });
+
+    await assertFind(db, undefined, ["person", "ssn", ALICE.ssn]);
+    eq(await db.restore("person", "ssn", ALICE.ssn), undefined);
+    await db.save("person", { ...BOB, ssn: "000-00-0000", email: ALICE.email });
+  });
+});
@@ -0,0 +1,66 @@
+import { assertEquals as eq } from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { Maybe } from "../src/fn.ts";
+import { EntityDefinition } from "../src/types.ts";
+import { ALICE, ENTITY_DEFINITION_PERSON, Person } from "./fixtures.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+type StampedPerson = Person & { createdAt?: Date; updatedAt?: Date };
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("timestamps", () => {
+  const db = new EntityDb<Person>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    entityDefinitions: {
+      person: {
+        ...ENTITY_DEFINITION_PERSON,
+        timestamps: true,
+      } as EntityDefinition<Person>,
+    },
+  });
+
+  async function findAlice(): Promise<StampedPerson> {
+    const alice: Maybe<StampedPerson> = await db.find(
+      "person",
+      "ssn",
+      ALICE.ssn,
+    );
+    return alice!;
+  }
+
+  it("should set createdAt and updatedAt when inserting", async () => {
+    const before: number = Date.now();
+    await db.save("person", ALICE);
+    const { createdAt, updatedAt, ...alice } = await findAlice();
+
+    eq(alice, ALICE);
+    eq(createdAt, updatedAt);
+    eq(createdAt!.getTime() >= before, true);
+  });
+  it("should keep createdAt, and set updatedAt, when updating", async () => {
+    await db.save("person", ALICE);
+    const created: StampedPerson = await findAlice();
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await db.save("person", {
+      ...ALICE,
+      firstname: "Alicia",
+      createdAt: new Date(0),
+    } as StampedPerson);
+    const updated: StampedPerson = await findAlice();
+
+    eq(updated.firstname, "Alicia");
+    eq(updated.createdAt, created.createdAt);
+    eq(updated.updatedAt!.getTime() > created.updatedAt!.getTime(), true);
+  });
+});
@@ -0,0 +1,164 @@
+import { assertEquals as eq } from "https://deno.land/std@0.221.0/testing/asserts.ts";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/std@0.221.0/testing/bdd.ts";
+import { EntityDb } from "../src/entity-db.ts";
+import { IntegrityIssue, ValueStorage } from "../src/types.ts";
+import { ALICE, BOB, ENTITY_DEFINITION_PERSON, Person } from "./fixtures.ts";
+import { assertFind } from "./assert-find.ts";
+import { deleteAll } from "./delete-all.ts";
+
+const PREFIX: Deno.KvKey = [import.meta.url];
+
+function createDb(valueStorage?: ValueStorage): EntityDb<Person> {
+  return new EntityDb<Person>({
+    prefix: PREFIX,
+    dbFilePath: "./test.db",
+    entityDefinitions: { person: ENTITY_DEFINITION_PERSON },
+    valueStorage,
+  });
+}
+
+async function withKv(fn: (kv: Deno.Kv) => Promise<unknown>): Promise<void> {
+  const kv: Deno.Kv = await Deno.openKv("./test.db");
+  try {
+    await fn(kv);
+  } finally {
+    kv.close();
+  }
+}
+
+function issue(
+  kind: IntegrityIssue["kind"],
+  ...key: Deno.KvKeyPart[]
+): IntegrityIssue {
+  return { kind, entityDefinitionId: "person", key: [...PREFIX, ...key] };
+}
+
+beforeEach(() => deleteAll(PREFIX));
+afterEach(() => deleteAll(PREFIX));
+
+describe("verify", () => {
+  let db: EntityDb<Person>;
+  beforeEach(async () => {
+    db = createDb();
+    await db.save("person", ALICE);
+    await db.save("person", BOB);
+  });
+
+  it("should find no issues in a consistent db", async () => {
+    eq(await db.verify(), []);
+    eq(await db.verify("person"), []);
+  });
+  it("should find and delete orphaned keys", async () => {
+    const ghost: Person = {
+      ...ALICE,
+      ssn: "000-00-0000",
+      email: "ghost@example.com",
+    };
+    await withKv((kv) =>
+      kv.set([...PREFIX, "person", "email", ghost.email], ghost)
+    );
+
+    eq(await db.verify(), [issue("orphan", "person", "email", ghost.email)]);
+    eq(await db.verify("person", { repair: true }), [
+      issue("orphan", "person", "email", ghost.email),
+    ]);
+    eq(await db.verify(), []);
+    await assertFind(db, undefined, ["person", "email", ghost.email]);
+  });
+  it("should find and restore missing keys", async () => {
+    await withKv((kv) =>
+      kv.delete([...PREFIX, "person", "email", ALICE.email])
+    );
+
+    eq(await db.verify(), [issue("missing", "person", "email", ALICE.email)]);
+    await db.verify(undefined, { repair: true });
+    eq(await db.verify(), []);
+    await assertFind(db, ALICE, ["person", "email", ALICE.email]);
+  });
+  it("should find and overwrite divergent values", async () => {
+    await withKv((kv) =>
+      kv.set([...PREFIX, "person", "email", ALICE.email], {
+        ...ALICE,
+        firstname: "Alicia",
+      })
+    );
+
+    eq(await db.verify(), [issue("divergent", "person", "email", ALICE.email)]);
+    await db.verify(undefined, { repair: true });
+    eq(await db.verify(), []);
+    await assertFind(db, ALICE, ["person", "email", ALICE.email]);
+  });
+  it("should report, but not repair, conflicting unique keys", async () => {
+    const bob: Person = { ...BOB, email: ALICE.email };
+    await withKv((kv) => kv.set([...PREFIX, "person", "ssn", BOB.ssn], bob));
+
+    const conflict: IntegrityIssue = issue(
+      "conflict",
+      "person",
+      "email",
+      ALICE.email,
+    );
+    const issues: IntegrityIssue[] = await db.verify(undefined, {
+      repair: true,
+    });
+    eq(issues.filter(({ kind }) => kind === "conflict"), [conflict]);
+    eq(await db.verify(), [conflict]);
+    await assertFind(db, ALICE, ["person", "email", ALICE.email]);
+  });
+  it("should repair in batches", async () => {
+    await withKv(async (kv) => {
+      await kv.delete([...PREFIX, "person", "email", ALICE.email]);
+      await kv.delete([...PREFIX, "person", "email", BOB.email]);
+    });
+
+    eq((await db.verify(undefined, { repair: true, batchSize: 1 })).length, 2);
+    eq(await db.verify(), []);
+  });
+});
+
+describe("verify with valueStorage: references", () => {
+  let db: EntityDb<Person>;
+  beforeEach(async () => {
+    db = createDb("references");
+    await db.save("person", ALICE);
+  });
+
+  it("should restore missing keys as references", async () => {
+    await withKv((kv) =>
+      kv.delete([...PREFIX, "person", "email", ALICE.email])
+    );
+    await db.verify(undefined, { repair: true });
+
+    await withKv(async (kv) => {
+      const { value } = await kv.get([
+        ...PREFIX,
+        "person",
+        "email",
+        ALICE.email,
+      ]);
+      eq(value, [...PREFIX, "person", "ssn", ALICE.ssn]);
+    });
+  });
+  it("should find copies where references should be", async () => {
+    await withKv((kv) =>
+      kv.set([...PREFIX, "person", "email", ALICE.email], ALICE)
+    );
+
+    eq(await db.verify(), [issue("divergent", "person", "email", ALICE.email)]);
+  });
+  it("should find references to missing EntityInstances", async () => {
+    await withKv((kv) => kv.delete([...PREFIX, "person", "ssn", ALICE.ssn]));
+
+    eq(
+      (await db.verify()).map(({ kind }) => kind),
+      ["orphan", "orphan", "orphan"],
+    );
+    await db.verify(undefined, { repair: true });
+    eq(await db.verify(), []);
+  });
+});